@@ -0,0 +1,132 @@
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import { type CarouselComponent, registerCarouselComponent } from "./carousel";
+
+// Waits for the slot assignment and the batched re-rendering.
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+async function createCarousel(
+  attributes = "",
+  count = 3
+): Promise<CarouselComponent> {
+  const items = Array.from(
+    { length: count },
+    (_, index) => `<div style="width: 100px; height: 50px">${index}</div>`
+  ).join("");
+  document.body.insertAdjacentHTML(
+    "beforeend",
+    `<wf-carousel ${attributes}>${items}</wf-carousel>`
+  );
+  await settle();
+  return document.body.lastElementChild as CarouselComponent;
+}
+
+function query(carousel: CarouselComponent, selector: string): HTMLElement {
+  return carousel.shadowRoot!.querySelector(selector)!;
+}
+
+function press(carousel: CarouselComponent, key: string) {
+  query(carousel, ".container").dispatchEvent(
+    new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true })
+  );
+}
+
+describe("wf-carousel", () => {
+  beforeAll(async () => {
+    await registerCarouselComponent();
+  });
+  afterEach(() => {
+    document.body.replaceChildren();
+  });
+  test("region semantics", async () => {
+    const carousel = await createCarousel('label="Products"');
+    const container = query(carousel, ".container");
+    expect(container.getAttribute("role")).toBe("region");
+    expect(container.getAttribute("aria-roledescription")).toBe("carousel");
+    expect(container.getAttribute("aria-label")).toBe("Products");
+    expect(container.tabIndex).toBe(0);
+  });
+  test("item semantics", async () => {
+    const carousel = await createCarousel();
+    const item = carousel.children[1];
+    expect(item.getAttribute("role")).toBe("group");
+    expect(item.getAttribute("aria-label")).toBe("2 of 3");
+  });
+  test("announce current item", async () => {
+    const carousel = await createCarousel();
+    const status = query(carousel, ".status");
+    expect(status.getAttribute("aria-live")).toBe("polite");
+    expect(status.textContent).toBe("Item 1 of 3");
+    carousel.index = 2;
+    await settle();
+    expect(status.textContent).toBe("Item 3 of 3");
+  });
+  test("next and previous buttons", async () => {
+    const carousel = await createCarousel();
+    const change = vi.fn();
+    carousel.addEventListener("change", change);
+    const previous = query(carousel, ".previous") as HTMLButtonElement;
+    const next = query(carousel, ".next") as HTMLButtonElement;
+    expect(previous.disabled).toBe(true);
+    next.click();
+    expect(carousel.index).toBe(1);
+    expect(carousel.getAttribute("index")).toBe("1");
+    expect(change).toHaveBeenCalledTimes(1);
+    expect(change.mock.calls[0][0].detail).toEqual({ index: 1 });
+    next.click();
+    await settle();
+    expect(next.disabled).toBe(true);
+    previous.click();
+    expect(carousel.index).toBe(1);
+  });
+  test("keyboard navigation", async () => {
+    const carousel = await createCarousel("", 5);
+    press(carousel, "ArrowRight");
+    expect(carousel.index).toBe(1);
+    press(carousel, "End");
+    expect(carousel.index).toBe(4);
+    press(carousel, "ArrowRight");
+    expect(carousel.index).toBe(4);
+    press(carousel, "ArrowLeft");
+    expect(carousel.index).toBe(3);
+    press(carousel, "Home");
+    expect(carousel.index).toBe(0);
+  });
+  test("loop", async () => {
+    const carousel = await createCarousel("loop");
+    expect((query(carousel, ".previous") as HTMLButtonElement).disabled).toBe(
+      false
+    );
+    carousel.previous();
+    expect(carousel.index).toBe(2);
+    carousel.next();
+    expect(carousel.index).toBe(0);
+  });
+  test("index attribute", async () => {
+    const change = vi.fn();
+    const carousel = await createCarousel('index="2"');
+    carousel.addEventListener("change", change);
+    expect(carousel.index).toBe(2);
+    carousel.setAttribute("index", "1");
+    expect(carousel.index).toBe(1);
+    expect(change).not.toHaveBeenCalled();
+  });
+  test("scroll to index", async () => {
+    const carousel = await createCarousel('style="width: 150px"', 5);
+    carousel.index = 3;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    const container = query(carousel, ".container");
+    const item = carousel.children[3].getBoundingClientRect();
+    expect(
+      Math.abs(item.left - container.getBoundingClientRect().left)
+    ).toBeLessThan(2);
+  });
+  test("snap property", async () => {
+    const carousel = await createCarousel();
+    carousel.snap = "center";
+    await settle();
+    expect(carousel.getAttribute("snap")).toBe("center");
+    expect(getComputedStyle(carousel.children[0]).scrollSnapAlign).toBe(
+      "center"
+    );
+  });
+});
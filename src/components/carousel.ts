@@ -1,19 +1,308 @@
-class CarouselComponent extends HTMLElement {
-  constructor() {
-    super();
-    const shadowRoot = this.attachShadow({ mode: "open" });
-    shadowRoot.appendChild(template.content.cloneNode(true));
+import { createVirtual } from "../dom.js";
+import {
+  type RegisterOptions,
+  WebFoundationElement,
+  booleanAttribute,
+  loadStyleSheet,
+  numberAttribute,
+  registerComponents,
+} from "../element.js";
+
+/** Alignment of the items when the carousel snaps to them. */
+export type CarouselSnap = "start" | "center" | "end" | "none";
+
+// Time after the last scroll event, at which the scrolling is settled.
+const SCROLL_SETTLE_DELAY = 100;
+
+// Distance a pointer needs to move to start dragging, in pixels.
+const DRAG_THRESHOLD = 5;
+
+/**
+ * Horizontally scrolling list of items, with previous and next buttons.
+ *
+ * The `index` attribute and property select the current item, which is
+ * aligned according to the `snap` attribute (`start`, `center`, `end` or
+ * `none`). Navigating with the buttons, the arrow, Home and End keys, by
+ * scrolling or by dragging with a mouse dispatches a `change` event with the
+ * new index as `detail.index`, setting the `index` does not. With the `loop`
+ * attribute, navigating past the last item wraps around to the first one and
+ * vice versa. The carousel is labelled by its `label` attribute, and
+ * announces the current item to screen readers.
+ *
+ * @example
+ * <wf-carousel label="Products" snap="center" loop>
+ *   <wf-tile background="one.jpg"></wf-tile>
+ *   <wf-tile background="two.jpg"></wf-tile>
+ * </wf-carousel>
+ */
+export class CarouselComponent extends WebFoundationElement {
+  static properties = {
+    index: { type: numberAttribute, value: 0, reflect: true },
+    snap: { value: "start", reflect: true },
+    loop: { type: booleanAttribute, value: false },
+    label: { value: "Carousel" },
+  };
+  static styles = [
+    loadStyleSheet(import.meta.resolve("../styles/reset.css")),
+    loadStyleSheet(import.meta.resolve("./carousel.css")),
+  ];
+
+  declare index: number;
+  declare snap: CarouselSnap;
+  declare loop: boolean;
+  declare label: string;
+
+  private readonly container: { current: HTMLDivElement | null } = {
+    current: null,
+  };
+  private items: Element[] = [];
+  private scrolledIndex?: number;
+  private scrollTimeout?: ReturnType<typeof setTimeout>;
+  private drag?: { pointerId: number; x: number; scrollLeft: number };
+  private dragged = false;
+
+  /** Navigates to the previous item. */
+  previous() {
+    this.navigate(this.getIndex() - 1);
+  }
+
+  /** Navigates to the next item. */
+  next() {
+    this.navigate(this.getIndex() + 1);
+  }
+
+  render() {
+    const index = this.getIndex();
+    const count = this.items.length;
+    return [
+      createVirtual(
+        "div",
+        {
+          class: "container",
+          part: "container",
+          role: "region",
+          "aria-roledescription": "carousel",
+          "aria-label": this.label,
+          tabindex: "0",
+          ref: this.container,
+          onKeydown: this.onKeydown,
+          onScroll: this.onScroll,
+          onPointerdown: this.onPointerdown,
+          onPointermove: this.onPointermove,
+          onPointerup: this.onPointerup,
+          onPointercancel: this.onPointerup,
+          onClick: { listener: this.onClick, options: { capture: true } },
+        },
+        createVirtual("slot", { onSlotchange: this.onSlotchange })
+      ),
+      createVirtual(
+        "button",
+        {
+          class: "previous",
+          part: "previous",
+          type: "button",
+          "aria-label": "Previous item",
+          disabled: count === 0 || (!this.loop && index === 0),
+          onClick: this.onPrevious,
+        },
+        "‹"
+      ),
+      createVirtual(
+        "button",
+        {
+          class: "next",
+          part: "next",
+          type: "button",
+          "aria-label": "Next item",
+          disabled: count === 0 || (!this.loop && index === count - 1),
+          onClick: this.onNext,
+        },
+        "›"
+      ),
+      createVirtual(
+        "div",
+        { class: "status", "aria-live": "polite", "aria-atomic": "true" },
+        count > 0 ? `Item ${index + 1} of ${count}` : ""
+      ),
+    ];
+  }
+
+  update() {
+    super.update();
+    if (!this.container.current) return;
+    const count = this.items.length;
+    this.items.forEach((item, index) => {
+      item.setAttribute("role", "group");
+      item.setAttribute("aria-roledescription", "item");
+      item.setAttribute("aria-label", `${index + 1} of ${count}`);
+    });
+    const index = this.getIndex();
+    if (count > 0 && index !== this.scrolledIndex) {
+      this.scrolledIndex = index;
+      this.container.current.scrollTo({
+        left: this.getScrollPosition(this.items[index]),
+        behavior: prefersReducedMotion() ? "instant" : "smooth",
+      });
+    }
+  }
+
+  disconnectedCallback() {
+    clearTimeout(this.scrollTimeout);
+  }
+
+  // Returns the index of the current item, within the bounds of the items.
+  private getIndex(): number {
+    const last = this.items.length - 1;
+    return Math.max(0, Math.min(Math.trunc(this.index) || 0, last));
   }
+
+  // Selects the item at `index`, wrapping around in loop mode, and notifies
+  // the listeners if it changed.
+  private navigate(index: number) {
+    const count = this.items.length;
+    if (count === 0) return;
+    const next = this.loop
+      ? ((index % count) + count) % count
+      : Math.max(0, Math.min(index, count - 1));
+    if (next === this.getIndex()) return;
+    this.index = next;
+    this.dispatchEvent(
+      new CustomEvent("change", { bubbles: true, detail: { index: next } })
+    );
+  }
+
+  // Returns the scroll position aligning the item according to `snap`.
+  private getScrollPosition(item: Element): number {
+    const container = this.container.current!;
+    const bounds = container.getBoundingClientRect();
+    const itemBounds = item.getBoundingClientRect();
+    let position =
+      itemBounds.left -
+      bounds.left -
+      container.clientLeft +
+      container.scrollLeft;
+    if (this.snap === "center") {
+      position -= (container.clientWidth - itemBounds.width) / 2;
+    } else if (this.snap === "end") {
+      position -= container.clientWidth - itemBounds.width;
+    }
+    const maximum = container.scrollWidth - container.clientWidth;
+    return Math.max(0, Math.min(position, maximum));
+  }
+
+  // Returns the index of the item closest to the current scroll position. The
+  // last items may share the maximum position, so the current index is kept
+  // unless another item is closer.
+  private getScrolledIndex(): number {
+    const scrollLeft = this.container.current!.scrollLeft;
+    const distances = this.items.map((item) =>
+      Math.abs(this.getScrollPosition(item) - scrollLeft)
+    );
+    let closest = this.getIndex();
+    distances.forEach((distance, index) => {
+      if (distance < distances[closest] - 1) closest = index;
+    });
+    return closest;
+  }
+
+  // Internal listeners, bound to keep their identity across renders.
+  private readonly onSlotchange = (event: Event) => {
+    this.items = (event.target as HTMLSlotElement).assignedElements();
+    this.scrolledIndex = undefined;
+    this.requestUpdate();
+  };
+
+  private readonly onPrevious = () => this.previous();
+
+  private readonly onNext = () => this.next();
+
+  private readonly onKeydown = (event: KeyboardEvent) => {
+    if (event.target !== event.currentTarget) return;
+    const actions: Record<string, () => void> = {
+      ArrowLeft: () => this.previous(),
+      ArrowRight: () => this.next(),
+      Home: () => this.navigate(0),
+      End: () => this.navigate(this.items.length - 1),
+    };
+    const action = actions[event.key];
+    if (!action) return;
+    event.preventDefault();
+    action();
+  };
+
+  private readonly onScroll = () => {
+    clearTimeout(this.scrollTimeout);
+    if (this.drag) return;
+    this.scrollTimeout = setTimeout(() => {
+      if (!this.container.current || this.items.length === 0) return;
+      const index = this.getScrolledIndex();
+      // Only follow scrolling by the user, not the scrolling to the index.
+      if (index === this.scrolledIndex) return;
+      this.scrolledIndex = index;
+      this.navigate(index);
+    }, SCROLL_SETTLE_DELAY);
+  };
+
+  private readonly onPointerdown = (event: PointerEvent) => {
+    // Touch and pens scroll natively.
+    if (event.pointerType !== "mouse" || event.button !== 0) return;
+    this.drag = {
+      pointerId: event.pointerId,
+      x: event.clientX,
+      scrollLeft: this.container.current!.scrollLeft,
+    };
+    this.dragged = false;
+  };
+
+  private readonly onPointermove = (event: PointerEvent) => {
+    const drag = this.drag;
+    const container = this.container.current;
+    if (!drag || !container || drag.pointerId !== event.pointerId) return;
+    const distance = event.clientX - drag.x;
+    if (!this.dragged && Math.abs(distance) < DRAG_THRESHOLD) return;
+    if (!this.dragged) {
+      this.dragged = true;
+      container.setPointerCapture(event.pointerId);
+      container.classList.add("dragging");
+    }
+    container.scrollLeft = drag.scrollLeft - distance;
+  };
+
+  private readonly onPointerup = (event: PointerEvent) => {
+    const container = this.container.current;
+    if (!this.drag || !container || this.drag.pointerId !== event.pointerId) {
+      return;
+    }
+    this.drag = undefined;
+    if (!this.dragged) return;
+    container.classList.remove("dragging");
+    // Snap to the closest item, even if it is the current one.
+    const index = this.getScrolledIndex();
+    this.scrolledIndex = undefined;
+    this.navigate(index);
+    this.requestUpdate();
+  };
+
+  private readonly onClick = (event: MouseEvent) => {
+    // Clicks ending a drag do not activate the items.
+    if (this.dragged) {
+      this.dragged = false;
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  };
 }
 
-const template = document.createElement("template");
-template.innerHTML = `
-  <link rel="stylesheet" href="${import.meta.resolve("./carousel.css")}">
-  <div class="container">
-    <slot></slot>
-  <div>
-`;
+// Tests if the user prefers reduced motion.
+function prefersReducedMotion(): boolean {
+  return matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
 
-export function registerCarouselComponent() {
-  customElements.define("wf-carousel", CarouselComponent);
+export function registerCarouselComponent(
+  options?: Omit<RegisterOptions, "components">
+): Promise<void> {
+  return registerComponents({
+    ...options,
+    components: { carousel: CarouselComponent },
+  });
 }
@@ -0,0 +1,12 @@
+import { CarouselComponent } from "./carousel.js";
+import { SlideshowComponent } from "./slideshow.js";
+import { TileComponent } from "./tile.js";
+
+export { CarouselComponent, SlideshowComponent, TileComponent };
+
+/** All components, by tag name without prefix, for [registerComponents]. */
+export const components = {
+  carousel: CarouselComponent,
+  slideshow: SlideshowComponent,
+  tile: TileComponent,
+};
@@ -0,0 +1,152 @@
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import {
+  type SlideshowComponent,
+  registerSlideshowComponent,
+} from "./slideshow";
+
+// Waits for the slot assignment and the batched re-rendering.
+const settle = (delay = 0) =>
+  new Promise((resolve) => setTimeout(resolve, delay));
+
+async function createSlideshow(
+  attributes = "",
+  count = 3
+): Promise<SlideshowComponent> {
+  const slides = Array.from(
+    { length: count },
+    (_, index) => `<div>${index}</div>`
+  ).join("");
+  document.body.insertAdjacentHTML(
+    "beforeend",
+    `<wf-slideshow ${attributes}>${slides}</wf-slideshow>`
+  );
+  await settle();
+  return document.body.lastElementChild as SlideshowComponent;
+}
+
+function getDots(slideshow: SlideshowComponent): HTMLButtonElement[] {
+  return [
+    ...slideshow.shadowRoot!.querySelectorAll<HTMLButtonElement>(
+      ".scroll button"
+    ),
+  ];
+}
+
+function swipe(slideshow: SlideshowComponent, distance: number) {
+  const items = slideshow.shadowRoot!.querySelector(".items")!;
+  const options = { pointerId: 1, isPrimary: true, bubbles: true, clientY: 0 };
+  items.dispatchEvent(
+    new PointerEvent("pointerdown", { ...options, clientX: 100 })
+  );
+  items.dispatchEvent(
+    new PointerEvent("pointerup", { ...options, clientX: 100 + distance })
+  );
+}
+
+describe("wf-slideshow", () => {
+  beforeAll(async () => {
+    await registerSlideshowComponent();
+  });
+  afterEach(() => {
+    document.body.replaceChildren();
+  });
+  test("show one slide", async () => {
+    const slideshow = await createSlideshow('index="1"');
+    const states = [...slideshow.children].map((slide) => [
+      slide.getAttribute("data-slide"),
+      slide.hasAttribute("inert"),
+    ]);
+    expect(states).toEqual([
+      ["before", true],
+      ["current", false],
+      ["after", true],
+    ]);
+  });
+  test("slide semantics", async () => {
+    const slideshow = await createSlideshow('label="News"');
+    const container = slideshow.shadowRoot!.querySelector(".container")!;
+    expect(container.getAttribute("aria-label")).toBe("News");
+    expect(slideshow.children[2].getAttribute("aria-roledescription")).toBe(
+      "slide"
+    );
+    expect(slideshow.children[2].getAttribute("aria-label")).toBe("3 of 3");
+  });
+  test("pagination dots", async () => {
+    const slideshow = await createSlideshow();
+    const slidechange = vi.fn();
+    slideshow.addEventListener("slidechange", slidechange);
+    expect(getDots(slideshow).map((dot) => dot.ariaCurrent)).toEqual([
+      "true",
+      "false",
+      "false",
+    ]);
+    getDots(slideshow)[2].click();
+    expect(slideshow.index).toBe(2);
+    expect(slidechange.mock.calls[0][0].detail).toEqual({ index: 2 });
+    await settle();
+    expect(getDots(slideshow)[2].ariaCurrent).toBe("true");
+    expect(slideshow.children[2].getAttribute("data-slide")).toBe("current");
+  });
+  test("wrap around", async () => {
+    const slideshow = await createSlideshow();
+    slideshow.previous();
+    expect(slideshow.index).toBe(2);
+    slideshow.next();
+    expect(slideshow.index).toBe(0);
+  });
+  test("swipe", async () => {
+    const slideshow = await createSlideshow();
+    swipe(slideshow, -80);
+    expect(slideshow.index).toBe(1);
+    swipe(slideshow, 80);
+    expect(slideshow.index).toBe(0);
+    swipe(slideshow, -20);
+    expect(slideshow.index).toBe(0);
+  });
+  test("autoplay", async () => {
+    const slideshow = await createSlideshow('autoplay interval="50"');
+    const slidechange = vi.fn();
+    slideshow.addEventListener("slidechange", slidechange);
+    await settle(80);
+    expect(slideshow.index).toBe(1);
+    expect(slidechange).toHaveBeenCalledTimes(1);
+  });
+  test("pause autoplay on hover", async () => {
+    const slideshow = await createSlideshow('autoplay interval="50"');
+    slideshow.dispatchEvent(new PointerEvent("pointerenter"));
+    await settle(80);
+    expect(slideshow.index).toBe(0);
+    slideshow.dispatchEvent(new PointerEvent("pointerleave"));
+    await settle(80);
+    expect(slideshow.index).toBe(1);
+  });
+  test("pause autoplay on focus", async () => {
+    const slideshow = await createSlideshow('autoplay interval="50"');
+    getDots(slideshow)[0].focus();
+    await settle(80);
+    expect(slideshow.index).toBe(0);
+  });
+  test("silence announcements during autoplay", async () => {
+    const slideshow = await createSlideshow('autoplay interval="1000"');
+    const items = slideshow.shadowRoot!.querySelector(".items")!;
+    expect(items.getAttribute("aria-live")).toBe("off");
+    slideshow.autoplay = false;
+    await settle();
+    expect(items.getAttribute("aria-live")).toBe("polite");
+  });
+  test("transition property", async () => {
+    const slideshow = await createSlideshow();
+    slideshow.transition = "fade";
+    expect(slideshow.getAttribute("transition")).toBe("fade");
+  });
+  test("ignore invalid intervals", async () => {
+    for (const interval of ["abc", "0", "-1"]) {
+      const slideshow = await createSlideshow(
+        `autoplay interval="${interval}"`
+      );
+      await settle(50);
+      expect(slideshow.index).toBe(0);
+      slideshow.remove();
+    }
+  });
+});
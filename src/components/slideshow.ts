@@ -1,23 +1,262 @@
-class SlideshowComponent extends HTMLElement {
-  constructor() {
-    super();
-    const shadowRoot = this.attachShadow({ mode: "open" });
-    shadowRoot.appendChild(template.content.cloneNode(true));
+import { createVirtual } from "../dom.js";
+import {
+  type RegisterOptions,
+  WebFoundationElement,
+  booleanAttribute,
+  loadStyleSheet,
+  numberAttribute,
+  registerComponents,
+} from "../element.js";
+
+/** Transition between the slides of a slideshow. */
+export type SlideshowTransition = "slide" | "fade";
+
+// Delay between the slides during autoplay, in milliseconds.
+const DEFAULT_INTERVAL = 5000;
+
+// Horizontal distance of a swipe changing the slide, in pixels.
+const SWIPE_THRESHOLD = 50;
+
+/**
+ * Slideshow showing one of its children at a time, with pagination dots.
+ *
+ * The `index` attribute and property select the current slide, and the
+ * `transition` attribute animates the change with a `slide` (default) or a
+ * `fade`. With the `autoplay` attribute, the slideshow advances every
+ * `interval` milliseconds, while it is neither hovered nor focused and the
+ * user does not prefer reduced motion. Navigating with the dots, by swiping
+ * or by autoplay dispatches a `slidechange` event with the new index as
+ * `detail.index`, setting the `index` does not. The slideshow wraps around
+ * after the last slide.
+ *
+ * @example
+ * <wf-slideshow label="Highlights" transition="fade" autoplay interval="4000">
+ *   <img src="one.jpg" alt="One" />
+ *   <img src="two.jpg" alt="Two" />
+ * </wf-slideshow>
+ */
+export class SlideshowComponent extends WebFoundationElement {
+  static properties = {
+    index: { type: numberAttribute, value: 0, reflect: true },
+    transition: { value: "slide", reflect: true },
+    autoplay: { type: booleanAttribute, value: false },
+    interval: { type: numberAttribute, value: DEFAULT_INTERVAL },
+    label: { value: "Slideshow" },
+  };
+  static styles = [
+    loadStyleSheet(import.meta.resolve("../styles/reset.css")),
+    loadStyleSheet(import.meta.resolve("./slideshow.css")),
+  ];
+
+  declare index: number;
+  declare transition: SlideshowTransition;
+  declare autoplay: boolean;
+  declare interval: number;
+  declare label: string;
+
+  private slides: Element[] = [];
+  private hovered = false;
+  private focused = false;
+  private timeout?: ReturnType<typeof setTimeout>;
+  private swipe?: { pointerId: number; x: number; y: number };
+
+  connectedCallback() {
+    this.addEventListener("pointerenter", this.onPointerenter);
+    this.addEventListener("pointerleave", this.onPointerleave);
+    this.addEventListener("focusin", this.onFocusin);
+    this.addEventListener("focusout", this.onFocusout);
+    super.connectedCallback();
+  }
+
+  disconnectedCallback() {
+    this.removeEventListener("pointerenter", this.onPointerenter);
+    this.removeEventListener("pointerleave", this.onPointerleave);
+    this.removeEventListener("focusin", this.onFocusin);
+    this.removeEventListener("focusout", this.onFocusout);
+    clearTimeout(this.timeout);
+  }
+
+  /** Navigates to the previous slide. */
+  previous() {
+    this.navigate(this.getIndex() - 1);
+  }
+
+  /** Navigates to the next slide. */
+  next() {
+    this.navigate(this.getIndex() + 1);
+  }
+
+  render() {
+    const index = this.getIndex();
+    return createVirtual(
+      "div",
+      {
+        class: "container",
+        part: "container",
+        role: "region",
+        "aria-roledescription": "carousel",
+        "aria-label": this.label,
+      },
+      createVirtual(
+        "div",
+        {
+          class: "items",
+          part: "items",
+          "aria-live": this.isPlaying() ? "off" : "polite",
+          onPointerdown: this.onPointerdown,
+          onPointerup: this.onPointerup,
+          onPointercancel: this.onPointercancel,
+        },
+        createVirtual("slot", { onSlotchange: this.onSlotchange })
+      ),
+      createVirtual(
+        "div",
+        { class: "scroll", part: "scroll" },
+        this.slides.map((_, each) =>
+          createVirtual("button", {
+            key: String(each),
+            type: "button",
+            "aria-label": `Slide ${each + 1}`,
+            "aria-current": each === index ? "true" : "false",
+            onClick: this.onDotClick,
+          })
+        )
+      )
+    );
+  }
+
+  update() {
+    super.update();
+    if (!this.isConnected) return;
+    const index = this.getIndex();
+    const count = this.slides.length;
+    this.slides.forEach((slide, each) => {
+      slide.setAttribute("role", "group");
+      slide.setAttribute("aria-roledescription", "slide");
+      slide.setAttribute("aria-label", `${each + 1} of ${count}`);
+      slide.setAttribute(
+        "data-slide",
+        each === index ? "current" : each < index ? "before" : "after"
+      );
+      slide.toggleAttribute("inert", each !== index);
+    });
+    // Restart the autoplay after every change.
+    clearTimeout(this.timeout);
+    if (this.isPlaying()) {
+      this.timeout = setTimeout(() => this.next(), this.getInterval());
+    }
   }
+
+  // Returns the index of the current slide, within the bounds of the slides.
+  private getIndex(): number {
+    const last = this.slides.length - 1;
+    return Math.max(0, Math.min(Math.trunc(this.index) || 0, last));
+  }
+
+  // Returns the delay between the slides, or the default one if invalid.
+  private getInterval(): number {
+    return Number.isFinite(this.interval) && this.interval > 0
+      ? this.interval
+      : DEFAULT_INTERVAL;
+  }
+
+  // Tests if the slideshow is advancing automatically.
+  private isPlaying(): boolean {
+    return (
+      this.autoplay &&
+      this.slides.length > 1 &&
+      !this.hovered &&
+      !this.focused &&
+      !matchMedia("(prefers-reduced-motion: reduce)").matches
+    );
+  }
+
+  // Selects the slide at `index`, wrapping around, and notifies the listeners
+  // if it changed.
+  private navigate(index: number) {
+    const count = this.slides.length;
+    if (count === 0) return;
+    const next = ((index % count) + count) % count;
+    if (next === this.getIndex()) return;
+    this.index = next;
+    this.dispatchEvent(
+      new CustomEvent("slidechange", {
+        bubbles: true,
+        detail: { index: next },
+      })
+    );
+  }
+
+  // Internal listeners, bound to keep their identity across renders.
+  private readonly onSlotchange = (event: Event) => {
+    this.slides = (event.target as HTMLSlotElement).assignedElements();
+    this.requestUpdate();
+  };
+
+  private readonly onDotClick = (event: Event) => {
+    const dot = event.currentTarget as Element;
+    this.navigate([...dot.parentElement!.children].indexOf(dot));
+  };
+
+  private readonly onPointerenter = () => {
+    this.hovered = true;
+    this.requestUpdate();
+  };
+
+  private readonly onPointerleave = () => {
+    this.hovered = false;
+    this.requestUpdate();
+  };
+
+  private readonly onFocusin = () => {
+    this.focused = true;
+    this.requestUpdate();
+  };
+
+  private readonly onFocusout = (event: FocusEvent) => {
+    if (this.contains(event.relatedTarget as Node | null)) return;
+    this.focused = false;
+    this.requestUpdate();
+  };
+
+  private readonly onPointerdown = (event: PointerEvent) => {
+    if (!event.isPrimary) return;
+    this.swipe = {
+      pointerId: event.pointerId,
+      x: event.clientX,
+      y: event.clientY,
+    };
+  };
+
+  private readonly onPointerup = (event: PointerEvent) => {
+    const swipe = this.swipe;
+    if (!swipe || swipe.pointerId !== event.pointerId) return;
+    this.swipe = undefined;
+    const distanceX = event.clientX - swipe.x;
+    const distanceY = event.clientY - swipe.y;
+    if (
+      Math.abs(distanceX) < SWIPE_THRESHOLD ||
+      Math.abs(distanceX) < Math.abs(distanceY)
+    ) {
+      return;
+    }
+    if (distanceX < 0) {
+      this.next();
+    } else {
+      this.previous();
+    }
+  };
+
+  private readonly onPointercancel = () => {
+    this.swipe = undefined;
+  };
 }
 
-const template = document.createElement("template");
-template.innerHTML = `
-<link rel="stylesheet" href="${import.meta.resolve("./slideshow.css")}">
-<div class="container">
-  <div class="items>
-    <slot></slot>
-  </div>
-  <div class="scroll">
-  </div>
-</div>
-`;
-
-export function registerSlideshowComponent() {
-  customElements.define("wf-slideshow", SlideshowComponent);
+export function registerSlideshowComponent(
+  options?: Omit<RegisterOptions, "components">
+): Promise<void> {
+  return registerComponents({
+    ...options,
+    components: { slideshow: SlideshowComponent },
+  });
 }
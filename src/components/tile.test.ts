@@ -0,0 +1,121 @@
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import { type TileComponent, registerTileComponent } from "./tile";
+
+// Transparent GIF of 1×1 pixel, with fragments telling the sources apart.
+const IMAGE =
+  "data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+const BROKEN_IMAGE = "data:image/gif;base64,broken";
+
+// Waits for the batched re-rendering.
+const settle = (delay = 0) =>
+  new Promise((resolve) => setTimeout(resolve, delay));
+
+function createTile(attributes = ""): TileComponent {
+  document.body.insertAdjacentHTML(
+    "beforeend",
+    `<wf-tile width="100px" height="100px" ${attributes}>Content</wf-tile>`
+  );
+  return document.body.lastElementChild as TileComponent;
+}
+
+function waitForEvent(tile: TileComponent, type: string): Promise<Event> {
+  return new Promise((resolve) =>
+    tile.addEventListener(type, resolve, { once: true })
+  );
+}
+
+function getBackground(tile: TileComponent): HTMLElement {
+  return tile.shadowRoot!.querySelector(".background")!;
+}
+
+describe("wf-tile", () => {
+  beforeAll(async () => {
+    await registerTileComponent();
+  });
+  afterEach(() => {
+    document.body.replaceChildren();
+  });
+  test("load the background", async () => {
+    const tile = createTile(`background="${IMAGE}"`);
+    await waitForEvent(tile, "load");
+    expect(getBackground(tile).style.backgroundImage).toContain(IMAGE);
+  });
+  test("load the background lazily", async () => {
+    document.body.insertAdjacentHTML(
+      "beforeend",
+      '<div style="height: 10000px"></div>'
+    );
+    const tile = createTile(`background="${IMAGE}"`);
+    const load = vi.fn();
+    tile.addEventListener("load", load);
+    await settle(50);
+    expect(load).not.toHaveBeenCalled();
+    expect(getBackground(tile).style.backgroundImage).toBe("");
+    tile.scrollIntoView();
+    await waitForEvent(tile, "load");
+    expect(getBackground(tile).style.backgroundImage).toContain(IMAGE);
+  });
+  test("select the source by width", async () => {
+    const tile = createTile(
+      `srcset="${IMAGE}#small 50w, ${IMAGE}#medium ${
+        100 * devicePixelRatio
+      }w, ${IMAGE}#large 400w"`
+    );
+    await waitForEvent(tile, "load");
+    expect(getBackground(tile).style.backgroundImage).toContain("#medium");
+  });
+  test("select the largest source", async () => {
+    const tile = createTile(`srcset="${IMAGE}#small 10w, ${IMAGE}#large 20w"`);
+    await waitForEvent(tile, "load");
+    expect(getBackground(tile).style.backgroundImage).toContain("#large");
+  });
+  test("select the source by density", async () => {
+    const tile = createTile(
+      `srcset="${IMAGE}#low ${devicePixelRatio - 0.5}x, ${IMAGE}#high ${
+        devicePixelRatio
+      }x"`
+    );
+    await waitForEvent(tile, "load");
+    expect(getBackground(tile).style.backgroundImage).toContain("#high");
+  });
+  test("show a placeholder color", async () => {
+    const tile = createTile(`background="${IMAGE}" placeholder="red"`);
+    await settle();
+    const placeholder = tile.shadowRoot!.querySelector(".placeholder")!;
+    expect(getComputedStyle(placeholder).backgroundColor).toBe(
+      "rgb(255, 0, 0)"
+    );
+    expect(placeholder.classList.contains("loaded")).toBe(false);
+    await waitForEvent(tile, "load");
+    expect(placeholder.classList.contains("loaded")).toBe(true);
+  });
+  test("show a placeholder image", async () => {
+    const tile = createTile(
+      `background="${IMAGE}" placeholder="${IMAGE}#placeholder"`
+    );
+    await settle();
+    const placeholder =
+      tile.shadowRoot!.querySelector<HTMLElement>(".placeholder")!;
+    expect(placeholder.style.backgroundImage).toContain("#placeholder");
+  });
+  test("fall back on errors", async () => {
+    const tile = createTile(
+      `background="${BROKEN_IMAGE}" fallback="${IMAGE}#fallback"`
+    );
+    const error = vi.fn();
+    tile.addEventListener("error", error);
+    await waitForEvent(tile, "load");
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(getBackground(tile).style.backgroundImage).toContain("#fallback");
+  });
+  test("describe the background", async () => {
+    const tile = createTile(`background="${IMAGE}" alt="Mountains"`);
+    await settle();
+    expect(getBackground(tile).getAttribute("role")).toBe("img");
+    expect(getBackground(tile).getAttribute("aria-label")).toBe("Mountains");
+    tile.alt = null;
+    await settle();
+    expect(getBackground(tile).hasAttribute("role")).toBe(false);
+    expect(getBackground(tile).getAttribute("aria-hidden")).toBe("true");
+  });
+});
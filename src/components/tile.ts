@@ -1,45 +1,215 @@
-class TileComponent extends HTMLElement {
-  static observedAttributes = ["width", "height", "background"];
+import { createVirtual } from "../dom.js";
+import {
+  type RegisterOptions,
+  WebFoundationElement,
+  loadStyleSheet,
+  registerComponents,
+} from "../element.js";
 
-  private container: HTMLDivElement;
+// Distance to the viewport at which tiles start loading their background.
+const LOADING_MARGIN = "200px";
 
-  constructor() {
-    super();
-    const shadowRoot = this.attachShadow({ mode: "open" });
-    shadowRoot.appendChild(template.content.cloneNode(true));
-    this.container = shadowRoot.querySelector(".container")!;
+// Observer of the tiles waiting to become visible, created on first use.
+let observer: IntersectionObserver | undefined;
+const visibilityCallbacks = new WeakMap<Element, () => void>();
+
+/**
+ * Tile with a background image, that is only loaded once the tile comes near
+ * the viewport.
+ *
+ * The image is chosen from the `srcset` attribute, with candidates in the
+ * format of the `srcset` of images: width descriptors (`tile-400.jpg 400w`)
+ * are chosen by the size of the tile and the device pixel ratio, density
+ * descriptors (`tile@2x.jpg 2x`) by the device pixel ratio alone. Without a
+ * matching candidate the `background` attribute is used. Until the image is
+ * decoded, the `placeholder` attribute is shown: a color, or the URL of a
+ * small image that is blurred. Once loaded the tile dispatches a `load`
+ * event, if it fails an `error` event, and then tries the `fallback` image.
+ * The `alt` attribute describes the image to screen readers, without it the
+ * image is decorative.
+ *
+ * @example
+ * <wf-tile
+ *   width="180px"
+ *   height="300px"
+ *   srcset="tile-180.jpg 180w, tile-360.jpg 360w"
+ *   background="tile-360.jpg"
+ *   placeholder="#c8d0d8"
+ *   alt="Mountains at dawn"
+ * ></wf-tile>
+ */
+export class TileComponent extends WebFoundationElement {
+  static properties = {
+    width: {},
+    height: {},
+    background: {},
+    srcset: {},
+    placeholder: {},
+    fallback: {},
+    alt: {},
+  };
+  static styles = [
+    loadStyleSheet(import.meta.resolve("../styles/reset.css")),
+    loadStyleSheet(import.meta.resolve("./tile.css")),
+  ];
+
+  declare width: string | null;
+  declare height: string | null;
+  declare background: string | null;
+  declare srcset: string | null;
+  declare placeholder: string | null;
+  declare fallback: string | null;
+  declare alt: string | null;
+
+  private visible = false;
+  private requested?: string;
+  private loaded?: string;
+  private readonly failed = new Set<string>();
+
+  disconnectedCallback() {
+    observer?.unobserve(this);
+  }
+
+  render() {
+    return createVirtual(
+      "div",
+      {
+        class: "container",
+        part: "container",
+        style: { width: this.width, height: this.height },
+      },
+      createVirtual(
+        "div",
+        this.alt
+          ? {
+              class: "background",
+              role: "img",
+              "aria-label": this.alt,
+              style: { backgroundImage: toCssUrl(this.loaded) },
+            }
+          : {
+              class: "background",
+              "aria-hidden": "true",
+              style: { backgroundImage: toCssUrl(this.loaded) },
+            }
+      ),
+      this.placeholder
+        ? createVirtual("div", {
+            class: { placeholder: true, loaded: !!this.loaded },
+            "aria-hidden": "true",
+            style: CSS.supports("color", this.placeholder)
+              ? { backgroundColor: this.placeholder }
+              : { backgroundImage: toCssUrl(this.placeholder) },
+          })
+        : null,
+      createVirtual("div", { class: "content" }, createVirtual("slot"))
+    );
+  }
+
+  update() {
+    super.update();
+    if (!this.isConnected) return;
+    if (!this.visible) {
+      observer ??= new IntersectionObserver(onIntersection, {
+        rootMargin: LOADING_MARGIN,
+      });
+      visibilityCallbacks.set(this, () => {
+        this.visible = true;
+        this.update();
+      });
+      observer.observe(this);
+      return;
+    }
+    const source = this.getSource();
+    if (source !== this.requested) {
+      this.load(source);
+    }
+  }
+
+  // Returns the image to load, skipping the images that failed.
+  private getSource(): string | undefined {
+    const width = this.getBoundingClientRect().width;
+    const density = window.devicePixelRatio || 1;
+    const source =
+      selectSource(this.srcset ?? "", width, density) ??
+      this.background ??
+      undefined;
+    if (source === undefined || !this.failed.has(source)) return source;
+    if (this.fallback && !this.failed.has(this.fallback)) return this.fallback;
+    return undefined;
   }
 
-  public attributeChangedCallback(
-    name: string,
-    oldValue: string | null,
-    newValue: string | null
-  ) {
-    switch (name) {
-      case "width":
-        this.container.style.setProperty("width", newValue);
-        break;
-      case "height":
-        this.container.style.setProperty("height", newValue);
-        break;
-      case "background":
-        this.container.style.setProperty(
-          "background-image",
-          newValue ? `url("${encodeURI(newValue)}")` : null
-        );
-        break;
+  // Loads and decodes the image, before showing it instead of the placeholder.
+  private load(source: string | undefined) {
+    this.requested = source;
+    if (source === undefined) {
+      this.loaded = undefined;
+      super.update();
+      return;
     }
+    const image = new Image();
+    image.src = source;
+    image.decode().then(
+      () => {
+        if (this.requested !== source) return;
+        this.loaded = source;
+        super.update();
+        this.dispatchEvent(new Event("load"));
+      },
+      () => {
+        if (this.requested !== source) return;
+        this.failed.add(source);
+        this.dispatchEvent(new Event("error"));
+        this.update();
+      }
+    );
   }
 }
 
-const template = document.createElement("template");
-template.innerHTML = `
-  <link rel="stylesheet" href="${import.meta.resolve("./tile.css")}">
-  <div class="container">
-    <slot></slot>
-  <div>
-`;
+// Notifies the tiles that came near the viewport, and stops observing them.
+function onIntersection(entries: IntersectionObserverEntry[]) {
+  for (const entry of entries) {
+    if (!entry.isIntersecting) continue;
+    observer!.unobserve(entry.target);
+    visibilityCallbacks.get(entry.target)?.();
+    visibilityCallbacks.delete(entry.target);
+  }
+}
+
+// Selects the smallest candidate of a `srcset` that covers the width of the
+// tile in device pixels (or the density), or the largest one otherwise.
+function selectSource(
+  srcset: string,
+  width: number,
+  density: number
+): string | undefined {
+  const candidates = srcset
+    .split(",")
+    .map((candidate) => candidate.trim().split(/\s+/))
+    .filter(([url]) => url)
+    .map(([url, descriptor = "1x"]) => ({
+      url,
+      size: descriptor.endsWith("w")
+        ? parseFloat(descriptor) / width
+        : parseFloat(descriptor),
+    }))
+    .filter(({ size }) => !Number.isNaN(size))
+    .sort((a, b) => a.size - b.size);
+  return (
+    candidates.find(({ size }) => size >= density) ?? candidates.at(-1)
+  )?.url;
+}
+
+// Returns the CSS `url()` of an image, if any.
+function toCssUrl(url: string | null | undefined): string | null {
+  return url ? `url("${encodeURI(url)}")` : null;
+}
 
-export function registerTileComponent() {
-  customElements.define("wf-tile", TileComponent);
+export function registerTileComponent(
+  options?: Omit<RegisterOptions, "components">
+): Promise<void> {
+  return registerComponents({
+    ...options,
+    components: { tile: TileComponent },
+  });
 }
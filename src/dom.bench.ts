@@ -0,0 +1,48 @@
+import { bench, describe } from "vitest";
+import { createElement, createVirtual, updateElement } from "./dom";
+
+function keyedList(keys: number[]) {
+  return createVirtual(
+    "table",
+    {},
+    ...keys.map((key) =>
+      createVirtual(
+        "tr",
+        { key: String(key) },
+        createVirtual("td", {}, String(key)),
+        createVirtual("td", {}, `Row ${key}`)
+      )
+    )
+  );
+}
+
+// Benchmarks alternating between two keyed lists on every iteration.
+function benchToggle(name: string, from: number[], to: number[]) {
+  const lists = [keyedList(from), keyedList(to)];
+  const element = createElement(lists[0]);
+  let index = 0;
+  bench(name, () => {
+    index = 1 - index;
+    updateElement(element, lists[index]);
+  });
+}
+
+for (const size of [1000, 10000]) {
+  describe(`${size} rows`, () => {
+    const keys = Array.from({ length: size }, (_, i) => i);
+    const middle = size >>> 1;
+    benchToggle("insert", keys, [
+      ...keys.slice(0, middle),
+      size,
+      ...keys.slice(middle),
+    ]);
+    benchToggle("remove", keys, [
+      ...keys.slice(0, middle),
+      ...keys.slice(middle + 1),
+    ]);
+    const swapped = [...keys];
+    [swapped[1], swapped[size - 2]] = [swapped[size - 2], swapped[1]];
+    benchToggle("swap", keys, swapped);
+    benchToggle("reverse", keys, [...keys].reverse());
+  });
+}
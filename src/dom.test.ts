@@ -1,10 +1,33 @@
-import { describe, expect, test } from "vitest";
+import { afterEach, describe, expect, test, vi } from "vitest";
 import {
   createVirtual,
+  createAsync,
   createElement,
+  createRaw,
+  createRoot,
+  flushSync,
+  hydrateElement,
+  parseVirtual,
+  toVirtual,
   updateElement,
+  updateElementChildren,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  Suspense,
   REGISTERED_LISTENERS,
+  config,
+  type Operation,
+  Fragment,
+  HTML_NAMESPACE,
+  MATHML_NAMESPACE,
+  SVG_NAMESPACE,
+  XLINK_NAMESPACE,
+  type VirtualChild,
+  type VirtualDOM,
 } from "./dom";
+import { renderToString } from "./server";
 
 const handler1: EventListener = () => 1;
 const handler2: EventListener = (event: Event) => 2;
@@ -181,7 +204,7 @@ describe("createElement", () => {
     });
     expect(element.outerHTML).toEqual("<p></p>");
     expect(registeredListeners(element)).toEqual({
-      click: { listener: handler1 },
+      click: [{ listener: handler1 }],
     });
   });
   test("with a single function listener and options", () => {
@@ -194,7 +217,7 @@ describe("createElement", () => {
     });
     expect(element.outerHTML).toEqual("<p></p>");
     expect(registeredListeners(element)).toEqual({
-      click: listener,
+      click: [listener],
     });
   });
   test("with a multiple function listeners", () => {
@@ -207,8 +230,8 @@ describe("createElement", () => {
     });
     expect(element.outerHTML).toEqual("<p></p>");
     expect(registeredListeners(element)).toEqual({
-      mouseenter: { listener: handler1 },
-      mouseleave: { listener: handler2 },
+      mouseenter: [{ listener: handler1 }],
+      mouseleave: [{ listener: handler2 }],
     });
   });
   test("with a handler object", () => {
@@ -220,7 +243,7 @@ describe("createElement", () => {
     });
     expect(element.outerHTML).toEqual("<p></p>");
     expect(registeredListeners(element)).toEqual({
-      click: { listener: handlerObject },
+      click: [{ listener: handlerObject }],
     });
   });
   test("with a handler object and options", () => {
@@ -233,7 +256,7 @@ describe("createElement", () => {
     });
     expect(element.outerHTML).toEqual("<p></p>");
     expect(registeredListeners(element)).toEqual({
-      click: listener,
+      click: [listener],
     });
   });
   test("with a single text child", () => {
@@ -259,7 +282,7 @@ describe("createElement", () => {
     });
     expect(element.outerHTML).toEqual('<div id="foo">bar</div>');
     expect(registeredListeners(element)).toEqual({
-      click: { listener: handler1 },
+      click: [{ listener: handler1 }],
     });
   });
   test("with nested elements", () => {
@@ -302,11 +325,30 @@ describe("updateElement", () => {
     updateElement(html, target);
     expect(html.outerHTML).toEqual('<div class="bar"></div>');
   });
+  test("update shadow root", () => {
+    const host = document.createElement("div");
+    const root = host.attachShadow({ mode: "open" });
+    updateElement(root, { children: [createVirtual("p", {}, "a"), "b"] });
+    const p = root.firstChild;
+    updateElement(root, { children: [createVirtual("p", {}, "c")] });
+    expect(root.innerHTML).toEqual("<p>c</p>");
+    expect(root.firstChild).toBe(p);
+  });
+  test("update children only", () => {
+    const html = createElement(
+      createVirtual("div", { onClick: handler1, class: ["foo"] }, "a")
+    );
+    updateElementChildren(html, createVirtual("p", {}, "b"));
+    expect(html.outerHTML).toEqual('<div class="foo"><p>b</p></div>');
+    expect(registeredListeners(html)).toEqual({
+      click: [{ listener: handler1 }],
+    });
+  });
   test("add / remove listener", () => {
     const html = parseHtml("<div></div>") as HTMLDivElement;
     updateElement(html, createVirtual("div", { onClick: handler1 }));
     expect(registeredListeners(html)).toEqual({
-      click: { listener: handler1 },
+      click: [{ listener: handler1 }],
     });
     updateElement(html, createVirtual("div"));
     expect(registeredListeners(html)).toEqual({});
@@ -315,30 +357,30 @@ describe("updateElement", () => {
     const html = parseHtml("<div></div>") as HTMLDivElement;
     updateElement(html, createVirtual("div", { onClick: handler1 }));
     expect(registeredListeners(html)).toEqual({
-      click: { listener: handler1 },
+      click: [{ listener: handler1 }],
     });
     updateElement(html, createVirtual("div", { onClick: handler2 }));
     expect(registeredListeners(html)).toEqual({
-      click: { listener: handler2 },
+      click: [{ listener: handler2 }],
     });
     updateElement(html, createVirtual("div", { onClick: handlerObject }));
     expect(registeredListeners(html)).toEqual({
-      click: { listener: handlerObject },
+      click: [{ listener: handlerObject }],
     });
   });
   test("change listener with options", () => {
     const html = parseHtml("<div></div>") as HTMLDivElement;
     updateElement(html, createVirtual("div", { onClick: { listener: handler1, options: { capture: true } } }));
     expect(registeredListeners(html)).toEqual({
-      click: { listener: handler1, options: { capture: true } },
+      click: [{ listener: handler1, options: { capture: true } }],
     });
     updateElement(html, createVirtual("div", { onClick: { listener: handler2, options: { passive: true } } }));
     expect(registeredListeners(html)).toEqual({
-      click: { listener: handler2, options: { passive: true } },
+      click: [{ listener: handler2, options: { passive: true } }],
     });
     updateElement(html, createVirtual("div", { onClick: { listener: handlerObject, options: { once: true } } }));
     expect(registeredListeners(html)).toEqual({
-      click: { listener: handlerObject, options: { once: true } },
+      click: [{ listener: handlerObject, options: { once: true } }],
     });
   });
   test("add text child", () => {
@@ -403,4 +445,1784 @@ describe("updateElement", () => {
       '<div><span key="2"></span><span key="3"></span></div>'
     );
   });
+  test("change nested attribute", () => {
+    const html = parseHtml('<div><p class="foo"></p></div>') as HTMLDivElement;
+    const paragraph = html.firstChild;
+    const target = createVirtual("div", {}, createVirtual("p", { class: "bar" }));
+    updateElement(html, target);
+    expect(html.outerHTML).toEqual('<div><p class="bar"></p></div>');
+    expect(html.firstChild).toBe(paragraph);
+  });
+  test("change nested listener", () => {
+    const html = parseHtml("<div><p></p></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual("p", { onClick: handler1 })));
+    expect(registeredListeners(html.firstChild as Element)).toEqual({
+      click: [{ listener: handler1 }],
+    });
+    updateElement(html, createVirtual("div", {}, createVirtual("p", { onClick: handler2 })));
+    expect(registeredListeners(html.firstChild as Element)).toEqual({
+      click: [{ listener: handler2 }],
+    });
+    updateElement(html, createVirtual("div", {}, createVirtual("p")));
+    expect(registeredListeners(html.firstChild as Element)).toEqual({});
+  });
+  test("change nested children", () => {
+    const html = parseHtml(
+      "<div><ul><li>One</li><li>Two</li></ul></div>"
+    ) as HTMLDivElement;
+    const list = html.firstChild;
+    const target = createVirtual(
+      "div",
+      {},
+      createVirtual(
+        "ul",
+        {},
+        createVirtual("li", {}, "One"),
+        createVirtual("li", {}, createVirtual("b", {}, "Two")),
+        createVirtual("li", {}, "Three")
+      )
+    );
+    updateElement(html, target);
+    expect(html.outerHTML).toEqual(
+      "<div><ul><li>One</li><li><b>Two</b></li><li>Three</li></ul></div>"
+    );
+    expect(html.firstChild).toBe(list);
+  });
+  test("change deeply nested", () => {
+    const html = parseHtml(
+      '<div><section><article><p title="a">Hello</p></article></section></div>'
+    ) as HTMLDivElement;
+    const target = createVirtual(
+      "div",
+      {},
+      createVirtual(
+        "section",
+        { id: "main" },
+        createVirtual(
+          "article",
+          {},
+          createVirtual("p", { title: "b" }, "World")
+        )
+      )
+    );
+    updateElement(html, target);
+    expect(html.outerHTML).toEqual(
+      '<div><section id="main"><article><p title="b">World</p></article></section></div>'
+    );
+  });
+  test("change keyed nested", () => {
+    const html = parseHtml(
+      '<ul><li key="1">One</li><li key="2">Two</li></ul>'
+    ) as HTMLUListElement;
+    const [first, second] = html.children;
+    const target = createVirtual(
+      "ul",
+      {},
+      createVirtual("li", { key: "2", class: "active" }, "Zwei"),
+      createVirtual("li", { key: "1" }, "Eins")
+    );
+    updateElement(html, target);
+    expect(html.outerHTML).toEqual(
+      '<ul><li key="2" class="active">Zwei</li><li key="1">Eins</li></ul>'
+    );
+    expect(html.children[0]).toBe(second);
+    expect(html.children[1]).toBe(first);
+  });
+});
+
+describe("namespaces", () => {
+  test("create svg root", () => {
+    const element = createElement(createVirtual("svg"));
+    expect(element.namespaceURI).toEqual(SVG_NAMESPACE);
+    expect(element).toBeInstanceOf(SVGSVGElement);
+  });
+  test("create svg descendants", () => {
+    const element = createElement(
+      createVirtual(
+        "svg",
+        { viewBox: "0 0 10 10" },
+        createVirtual("g", {}, createVirtual("circle", { r: "5" }))
+      )
+    );
+    const circle = element.querySelector("circle")!;
+    expect(circle.namespaceURI).toEqual(SVG_NAMESPACE);
+    expect(circle).toBeInstanceOf(SVGCircleElement);
+    expect(element.getAttribute("viewBox")).toEqual("0 0 10 10");
+  });
+  test("create foreign object", () => {
+    const element = createElement(
+      createVirtual(
+        "svg",
+        {},
+        createVirtual("foreignObject", {}, createVirtual("div", {}, "Hello"))
+      )
+    );
+    const foreignObject = element.firstChild as Element;
+    expect(foreignObject.namespaceURI).toEqual(SVG_NAMESPACE);
+    const div = foreignObject.firstChild as Element;
+    expect(div.namespaceURI).toEqual(HTML_NAMESPACE);
+    expect(div).toBeInstanceOf(HTMLDivElement);
+  });
+  test("create math root", () => {
+    const element = createElement({
+      tagName: "math",
+      children: [{ tagName: "mi", children: ["x"] }],
+    });
+    expect(element.namespaceURI).toEqual(MATHML_NAMESPACE);
+    expect(element.firstElementChild!.namespaceURI).toEqual(MATHML_NAMESPACE);
+  });
+  test("create with explicit namespace", () => {
+    const element = createElement({
+      tagName: "circle",
+      namespaceURI: SVG_NAMESPACE,
+    });
+    expect(element.namespaceURI).toEqual(SVG_NAMESPACE);
+  });
+  test("create with parent namespace", () => {
+    const element = createElement(createVirtual("circle"), SVG_NAMESPACE);
+    expect(element.namespaceURI).toEqual(SVG_NAMESPACE);
+  });
+  test("create namespaced attribute", () => {
+    const element = createElement(
+      createVirtual("svg", {}, createVirtual("use", { "xlink:href": "#foo" }))
+    );
+    const use = element.firstChild as Element;
+    expect(use.getAttributeNS(XLINK_NAMESPACE, "href")).toEqual("#foo");
+  });
+  test("update namespaced attribute", () => {
+    const element = createElement(
+      createVirtual("svg", {}, createVirtual("use", { "xlink:href": "#foo" }))
+    );
+    updateElement(
+      element,
+      createVirtual("svg", {}, createVirtual("use", { "xlink:href": "#bar" }))
+    );
+    const use = element.firstChild as Element;
+    expect(use.getAttributeNS(XLINK_NAMESPACE, "href")).toEqual("#bar");
+    updateElement(element, createVirtual("svg", {}, createVirtual("use")));
+    expect(use.hasAttributeNS(XLINK_NAMESPACE, "href")).toBe(false);
+  });
+  test("update svg children", () => {
+    const html = parseHtml("<svg></svg>") as SVGSVGElement;
+    updateElement(html, createVirtual("svg", {}, createVirtual("rect")));
+    expect(html.firstElementChild!.namespaceURI).toEqual(SVG_NAMESPACE);
+    expect(html.firstElementChild).toBeInstanceOf(SVGRectElement);
+  });
+  test("update svg into html", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(
+      html,
+      createVirtual("div", {}, createVirtual("svg", {}, createVirtual("path")))
+    );
+    const svg = html.firstElementChild!;
+    expect(svg.namespaceURI).toEqual(SVG_NAMESPACE);
+    expect(svg.firstElementChild!.namespaceURI).toEqual(SVG_NAMESPACE);
+  });
+  test("update does not reuse across namespaces", () => {
+    const html = parseHtml("<svg></svg>") as SVGSVGElement;
+    const foreign = document.createElement("circle");
+    html.appendChild(foreign);
+    updateElement(html, createVirtual("svg", {}, createVirtual("circle")));
+    expect(html.childNodes.length).toEqual(1);
+    expect(html.firstChild).not.toBe(foreign);
+    expect(html.firstElementChild!.namespaceURI).toEqual(SVG_NAMESPACE);
+  });
+  test("update children of foreign object", () => {
+    const html = parseHtml(
+      "<svg><foreignObject></foreignObject></svg>"
+    ) as SVGSVGElement;
+    updateElement(
+      html,
+      createVirtual(
+        "svg",
+        {},
+        createVirtual("foreignObject", {}, createVirtual("p", {}, "Text"))
+      )
+    );
+    const paragraph = html.querySelector("p")!;
+    expect(paragraph.namespaceURI).toEqual(HTML_NAMESPACE);
+    expect(paragraph).toBeInstanceOf(HTMLParagraphElement);
+  });
+});
+
+describe("properties", () => {
+  test("create virtual with properties", () => {
+    const virtual = createVirtual("input", { ".value": "foo", ".checked": false });
+    expect(virtual).toEqual({
+      tagName: "input",
+      properties: { value: "foo", checked: false },
+    });
+  });
+  test("create virtual with boolean attributes", () => {
+    const virtual = createVirtual("input", {
+      disabled: true,
+      readonly: false,
+      required: null,
+      hidden: undefined,
+    });
+    expect(virtual).toEqual({
+      tagName: "input",
+      attributes: { disabled: "" },
+    });
+  });
+  test("create virtual with non-string attributes", () => {
+    const virtual = createVirtual("input", { tabindex: 0, value: "" });
+    expect(virtual).toEqual({
+      tagName: "input",
+      attributes: { tabindex: "0", value: "" },
+    });
+  });
+  test("create element with properties", () => {
+    const element = createElement(
+      createVirtual("input", { type: "checkbox", ".checked": true, ".indeterminate": true })
+    );
+    expect(element.outerHTML).toEqual('<input type="checkbox">');
+    expect(element.checked).toBe(true);
+    expect(element.indeterminate).toBe(true);
+  });
+  test("create select with value", () => {
+    const element = createElement(
+      createVirtual(
+        "select",
+        { ".value": "b" },
+        createVirtual("option", { value: "a" }, "A"),
+        createVirtual("option", { value: "b" }, "B")
+      )
+    );
+    expect(element.value).toEqual("b");
+    expect(element.selectedIndex).toEqual(1);
+  });
+  test("update property", () => {
+    const html = parseHtml("<input>") as HTMLInputElement;
+    updateElement(html, createVirtual("input", { ".value": "foo" }));
+    expect(html.value).toEqual("foo");
+    updateElement(html, createVirtual("input", { ".value": "bar" }));
+    expect(html.value).toEqual("bar");
+  });
+  test("update property after user edit", () => {
+    const html = parseHtml("<input>") as HTMLInputElement;
+    updateElement(html, createVirtual("input", { ".value": "foo" }));
+    html.value = "user";
+    updateElement(html, createVirtual("input", { ".value": "foo" }));
+    expect(html.value).toEqual("foo");
+  });
+  test("remove property", () => {
+    const html = parseHtml('<input type="checkbox">') as HTMLInputElement;
+    updateElement(html, createVirtual("input", { type: "checkbox", ".checked": true }));
+    expect(html.checked).toBe(true);
+    updateElement(html, createVirtual("input", { type: "checkbox" }));
+    expect(html.checked).toBe(false);
+  });
+  test("remove custom property", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", { ".custom": 42 }));
+    expect((html as any).custom).toEqual(42);
+    updateElement(html, createVirtual("div"));
+    expect("custom" in html).toBe(false);
+  });
+  test("update nested property", () => {
+    const html = parseHtml("<form><input></form>") as HTMLFormElement;
+    const input = html.firstChild as HTMLInputElement;
+    updateElement(html, createVirtual("form", {}, createVirtual("input", { ".value": "foo" })));
+    expect(html.firstChild).toBe(input);
+    expect(input.value).toEqual("foo");
+  });
+  test("update boolean attribute", () => {
+    const html = parseHtml("<button></button>") as HTMLButtonElement;
+    updateElement(html, createVirtual("button", { disabled: true }));
+    expect(html.outerHTML).toEqual('<button disabled=""></button>');
+    updateElement(html, createVirtual("button", { disabled: true }));
+    expect(html.disabled).toBe(true);
+    updateElement(html, createVirtual("button", { disabled: false }));
+    expect(html.outerHTML).toEqual("<button></button>");
+  });
+});
+
+describe("styles and classes", () => {
+  test("create virtual with style object", () => {
+    const virtual = createVirtual("div", { style: { color: "red", "--size": 2 } });
+    expect(virtual).toEqual({
+      tagName: "div",
+      style: { color: "red", "--size": 2 },
+    });
+  });
+  test("create virtual with style string", () => {
+    const virtual = createVirtual("div", { style: "color: red" });
+    expect(virtual).toEqual({
+      tagName: "div",
+      attributes: { style: "color: red" },
+    });
+  });
+  test("create virtual with class list", () => {
+    const virtual = createVirtual("div", { class: ["foo", false, "bar"] });
+    expect(virtual).toEqual({
+      tagName: "div",
+      classes: ["foo", false, "bar"],
+    });
+  });
+  test("create virtual with class record", () => {
+    const virtual = createVirtual("div", { class: { foo: true, bar: false } });
+    expect(virtual).toEqual({
+      tagName: "div",
+      classes: { foo: true, bar: false },
+    });
+  });
+  test("create element with style", () => {
+    const element = createElement({
+      tagName: "div",
+      style: { backgroundColor: "red", "margin-top": "1px", "--size": "2px" },
+    });
+    expect(element.style.backgroundColor).toEqual("red");
+    expect(element.style.marginTop).toEqual("1px");
+    expect(element.style.getPropertyValue("--size")).toEqual("2px");
+  });
+  test("create element with classes", () => {
+    const element = createElement({
+      tagName: "div",
+      classes: ["foo bar", null, "zork"],
+    });
+    expect(element.outerHTML).toEqual('<div class="foo bar zork"></div>');
+  });
+  test("update style property", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", { style: { color: "red", width: "1px" } }));
+    expect(html.style.color).toEqual("red");
+    expect(html.style.width).toEqual("1px");
+    updateElement(html, createVirtual("div", { style: { color: "blue" } }));
+    expect(html.style.color).toEqual("blue");
+    expect(html.style.width).toEqual("");
+  });
+  test("update style preserves foreign properties", () => {
+    const html = parseHtml('<div style="opacity: 0.5"></div>') as HTMLDivElement;
+    updateElement(html, createVirtual("div", { style: { color: "red" } }));
+    html.style.transform = "scale(2)";
+    updateElement(html, createVirtual("div", { style: { color: "blue" } }));
+    expect(html.style.opacity).toEqual("0.5");
+    expect(html.style.transform).toEqual("scale(2)");
+    expect(html.style.color).toEqual("blue");
+  });
+  test("update style custom property", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", { style: { "--gap": "4px" } }));
+    expect(html.style.getPropertyValue("--gap")).toEqual("4px");
+    updateElement(html, createVirtual("div", { style: {} }));
+    expect(html.style.getPropertyValue("--gap")).toEqual("");
+  });
+  test("update classes", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", { class: { foo: true, bar: true } }));
+    expect(html.className).toEqual("foo bar");
+    updateElement(html, createVirtual("div", { class: { foo: false, bar: true } }));
+    expect(html.className).toEqual("bar");
+  });
+  test("update classes preserves foreign tokens", () => {
+    const html = parseHtml('<div class="external"></div>') as HTMLDivElement;
+    updateElement(html, createVirtual("div", { class: ["foo"] }));
+    html.classList.add("animating");
+    updateElement(html, createVirtual("div", { class: ["bar"] }));
+    expect([...html.classList]).toEqual(["external", "animating", "bar"]);
+  });
+  test("update from structured to attributes", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", { class: ["foo"], style: { color: "red" } }));
+    updateElement(html, createVirtual("div", { class: "bar", style: "width: 1px;" }));
+    expect(html.outerHTML).toEqual('<div class="bar" style="width: 1px;"></div>');
+  });
+  test("update from structured to overlapping attributes", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", { class: ["foo"], style: { width: "2px" } }));
+    updateElement(html, createVirtual("div", { class: "foo", style: "width: 1px;" }));
+    expect(html.outerHTML).toEqual('<div class="foo" style="width: 1px;"></div>');
+    updateElement(html, createVirtual("div", { class: ["foo"], style: { width: "2px" } }));
+    expect(html.outerHTML).toEqual('<div class="foo" style="width: 2px;"></div>');
+  });
+});
+
+describe("components", () => {
+  function Greeting({ name }: { name: string }) {
+    return createVirtual("p", {}, `Hello ${name}`);
+  }
+  function Counter({ start }: { start: number }) {
+    const [count, setCount] = useState(start);
+    return createVirtual(
+      "button",
+      { onClick: () => setCount((value) => value + 1) },
+      String(count)
+    );
+  }
+  test("create virtual component", () => {
+    const virtual = createVirtual(Greeting, { name: "World" });
+    expect(virtual).toEqual({
+      component: Greeting,
+      props: { name: "World" },
+    });
+  });
+  test("create virtual component with children", () => {
+    const virtual = createVirtual(Greeting, { name: "World" }, "child");
+    expect(virtual).toEqual({
+      component: Greeting,
+      props: { name: "World", children: ["child"] },
+    });
+  });
+  test("create element with component", () => {
+    const element = createElement(
+      createVirtual("div", {}, createVirtual(Greeting, { name: "World" }))
+    );
+    expect(element.outerHTML).toEqual("<div><p>Hello World</p></div>");
+  });
+  test("update component props", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual(Greeting, { name: "World" })));
+    const paragraph = html.firstChild;
+    updateElement(html, createVirtual("div", {}, createVirtual(Greeting, { name: "Moon" })));
+    expect(html.outerHTML).toEqual("<div><p>Hello Moon</p></div>");
+    expect(html.firstChild).toBe(paragraph);
+  });
+  test("nested components", () => {
+    const Outer = ({ name }: { name: string }) =>
+      createVirtual(Greeting, { name: name.toUpperCase() });
+    const element = createElement(
+      createVirtual("div", {}, createVirtual(Outer, { name: "World" }))
+    );
+    expect(element.outerHTML).toEqual("<div><p>Hello WORLD</p></div>");
+  });
+  test("use state", () => {
+    const element = createElement(
+      createVirtual("div", {}, createVirtual(Counter, { start: 1 }))
+    );
+    const button = element.firstChild as HTMLButtonElement;
+    expect(element.outerHTML).toEqual("<div><button>1</button></div>");
+    button.click();
+    expect(element.outerHTML).toEqual("<div><button>2</button></div>");
+    button.click();
+    expect(element.outerHTML).toEqual("<div><button>3</button></div>");
+    expect(element.firstChild).toBe(button);
+  });
+  test("use state only re-renders the component", () => {
+    const render = vi.fn(Greeting);
+    const element = createElement(
+      createVirtual(
+        "div",
+        {},
+        createVirtual(render, { name: "World" }),
+        createVirtual(Counter, { start: 1 })
+      )
+    );
+    expect(render).toHaveBeenCalledTimes(1);
+    (element.lastChild as HTMLButtonElement).click();
+    expect(element.outerHTML).toEqual(
+      "<div><p>Hello World</p><button>2</button></div>"
+    );
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+  test("use state leaves the siblings untouched", () => {
+    const onUpdate = vi.fn();
+    const element = createElement(
+      createVirtual(
+        "div",
+        {},
+        createVirtual("span", { key: "a", onUpdate }),
+        createVirtual(Counter, { start: 1 }),
+        createVirtual("span", { key: "b", onUpdate }),
+        createVirtual("span", { key: "c", onUpdate })
+      )
+    );
+    (element.children[1] as HTMLButtonElement).click();
+    expect(element.outerHTML).toEqual(
+      '<div><span key="a"></span><button>2</button><span key="b"></span>' +
+        '<span key="c"></span></div>'
+    );
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+  test("use state changes the number of nodes", () => {
+    let setCount!: (count: number) => void;
+    const List = () => {
+      const [count, set] = useState(1);
+      setCount = set;
+      return createVirtual(
+        Fragment,
+        {},
+        Array.from({ length: count }, (_, index) =>
+          createVirtual(Greeting, { key: String(index), name: String(index) })
+        )
+      );
+    };
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    const render = () =>
+      updateElement(
+        html,
+        createVirtual(
+          "div",
+          {},
+          "before",
+          createVirtual(List, {}),
+          createVirtual(Counter, { start: 1 })
+        )
+      );
+    render();
+    setCount(3);
+    (html.lastChild as HTMLButtonElement).click();
+    expect(html.outerHTML).toEqual(
+      "<div>before<p>Hello 0</p><p>Hello 1</p><p>Hello 2</p>" +
+        "<button>2</button></div>"
+    );
+    setCount(0);
+    (html.lastChild as HTMLButtonElement).click();
+    expect(html.outerHTML).toEqual("<div>before<button>3</button></div>");
+    setCount(2);
+    render();
+    expect(html.outerHTML).toEqual(
+      "<div>before<p>Hello 0</p><p>Hello 1</p><button>3</button></div>"
+    );
+  });
+  test("use state is preserved across parent updates", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual(Counter, { start: 1 })));
+    (html.firstChild as HTMLButtonElement).click();
+    updateElement(html, createVirtual("div", {}, createVirtual(Counter, { start: 1 })));
+    expect(html.outerHTML).toEqual("<div><button>2</button></div>");
+  });
+  test("use state follows keys", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(
+      html,
+      createVirtual(
+        "div",
+        {},
+        createVirtual(Counter, { key: "a", start: 1 }),
+        createVirtual(Counter, { key: "b", start: 10 })
+      )
+    );
+    (html.firstChild as HTMLButtonElement).click();
+    updateElement(
+      html,
+      createVirtual(
+        "div",
+        {},
+        createVirtual(Counter, { key: "b", start: 10 }),
+        createVirtual(Counter, { key: "a", start: 1 })
+      )
+    );
+    expect(html.outerHTML).toEqual(
+      "<div><button>10</button><button>2</button></div>"
+    );
+  });
+  test("use state is reset when removed", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual(Counter, { start: 1 })));
+    (html.firstChild as HTMLButtonElement).click();
+    updateElement(html, createVirtual("div"));
+    updateElement(html, createVirtual("div", {}, createVirtual(Counter, { start: 1 })));
+    expect(html.outerHTML).toEqual("<div><button>1</button></div>");
+  });
+  test("use effect with cleanup", () => {
+    const log: string[] = [];
+    const Effect = ({ value }: { value: string }) => {
+      useEffect(() => {
+        log.push(`effect ${value}`);
+        return () => log.push(`cleanup ${value}`);
+      }, [value]);
+      return createVirtual("span", {}, value);
+    };
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual(Effect, { value: "a" })));
+    expect(log).toEqual(["effect a"]);
+    updateElement(html, createVirtual("div", {}, createVirtual(Effect, { value: "a" })));
+    expect(log).toEqual(["effect a"]);
+    updateElement(html, createVirtual("div", {}, createVirtual(Effect, { value: "b" })));
+    expect(log).toEqual(["effect a", "cleanup a", "effect b"]);
+    updateElement(html, createVirtual("div"));
+    expect(log).toEqual(["effect a", "cleanup a", "effect b", "cleanup b"]);
+  });
+  test("use effect cleanup of nested components", () => {
+    const log: string[] = [];
+    const Effect = () => {
+      useEffect(() => () => log.push("cleanup"), []);
+      return createVirtual("span");
+    };
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(
+      html,
+      createVirtual("div", {}, createVirtual("section", {}, createVirtual(Effect, {})))
+    );
+    updateElement(html, createVirtual("div"));
+    expect(log).toEqual(["cleanup"]);
+  });
+  test("use effect sees the rendered element", () => {
+    let text: string | null = null;
+    const Effect = () => {
+      const ref = useRef<string>("rendered");
+      useEffect(() => {
+        text = html.textContent;
+      }, []);
+      return createVirtual("span", {}, ref.current);
+    };
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual(Effect, {})));
+    expect(text).toEqual("rendered");
+  });
+  test("use memo", () => {
+    const factory = vi.fn((value: number) => value * 2);
+    const Memo = ({ value, other }: { value: number; other: string }) => {
+      const double = useMemo(() => factory(value), [value]);
+      return createVirtual("span", {}, `${double} ${other}`);
+    };
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual(Memo, { value: 1, other: "a" })));
+    updateElement(html, createVirtual("div", {}, createVirtual(Memo, { value: 1, other: "b" })));
+    expect(html.outerHTML).toEqual("<div><span>2 b</span></div>");
+    expect(factory).toHaveBeenCalledTimes(1);
+    updateElement(html, createVirtual("div", {}, createVirtual(Memo, { value: 2, other: "b" })));
+    expect(html.outerHTML).toEqual("<div><span>4 b</span></div>");
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+  test("use ref", () => {
+    const refs: Array<{ current: number }> = [];
+    const Ref = ({ value }: { value: number }) => {
+      const ref = useRef(0);
+      ref.current += value;
+      refs.push(ref);
+      return createVirtual("span", {}, String(ref.current));
+    };
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", {}, createVirtual(Ref, { value: 1 })));
+    updateElement(html, createVirtual("div", {}, createVirtual(Ref, { value: 2 })));
+    expect(html.outerHTML).toEqual("<div><span>3</span></div>");
+    expect(refs[0]).toBe(refs[1]);
+  });
+  test("hooks outside of components", () => {
+    expect(() => useState(0)).toThrowError();
+  });
+});
+
+describe("createRoot", () => {
+  function Counter({ start }: { start: number }) {
+    const [count, setCount] = useState(start);
+    return createVirtual(
+      "button",
+      { onClick: () => setCount((value) => value + 1) },
+      String(count)
+    );
+  }
+  test("render is scheduled", async () => {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    root.render(createVirtual("p", {}, "Hello"));
+    expect(container.innerHTML).toEqual("");
+    await Promise.resolve();
+    expect(container.innerHTML).toEqual("<p>Hello</p>");
+  });
+  test("render is scheduled in animation frame", async () => {
+    const container = document.createElement("div");
+    const root = createRoot(container, { scheduler: "animationFrame" });
+    root.render(createVirtual("p", {}, "Hello"));
+    await Promise.resolve();
+    expect(container.innerHTML).toEqual("");
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+    expect(container.innerHTML).toEqual("<p>Hello</p>");
+  });
+  test("render is coalesced", async () => {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    const render = vi.fn(({ value }: { value: string }) =>
+      createVirtual("p", {}, value)
+    );
+    root.render(createVirtual(render, { value: "a" }));
+    root.render(createVirtual(render, { value: "b" }));
+    root.render(createVirtual(render, { value: "c" }));
+    await Promise.resolve();
+    expect(container.innerHTML).toEqual("<p>c</p>");
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+  test("state changes are coalesced", async () => {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    const render = vi.fn(Counter);
+    root.render(createVirtual(render, { start: 0 }));
+    flushSync();
+    const button = container.firstChild as HTMLButtonElement;
+    button.click();
+    button.click();
+    button.click();
+    expect(container.innerHTML).toEqual("<button>0</button>");
+    await Promise.resolve();
+    expect(container.innerHTML).toEqual("<button>3</button>");
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+  test("flush sync", () => {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    root.render(createVirtual(Counter, { start: 1 }));
+    flushSync();
+    expect(container.innerHTML).toEqual("<button>1</button>");
+    flushSync(() => (container.firstChild as HTMLButtonElement).click());
+    expect(container.innerHTML).toEqual("<button>2</button>");
+  });
+  test("unmount", () => {
+    const log: string[] = [];
+    const Effect = () => {
+      useEffect(() => () => log.push("cleanup"), []);
+      return createVirtual("span", { onClick: handler1 });
+    };
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    root.render(createVirtual("div", {}, createVirtual(Effect, {})));
+    flushSync();
+    const span = container.querySelector("span")!;
+    expect(registeredListeners(span)).toEqual({ click: [{ listener: handler1 }] });
+    root.unmount();
+    expect(container.innerHTML).toEqual("");
+    expect(registeredListeners(span)).toEqual({});
+    expect(log).toEqual(["cleanup"]);
+  });
+  test("unmount components rendered into the container", () => {
+    const log: string[] = [];
+    const Effect = () => {
+      useEffect(() => {
+        log.push("mount");
+        return () => log.push("cleanup");
+      }, []);
+      return createVirtual("span");
+    };
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    root.render(createVirtual(Effect, {}));
+    flushSync();
+    root.unmount();
+    expect(log).toEqual(["mount", "cleanup"]);
+  });
+  test("unmount cancels scheduled render", async () => {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    root.render(createVirtual("p", {}, "Hello"));
+    root.unmount();
+    await Promise.resolve();
+    expect(container.innerHTML).toEqual("");
+    expect(() => root.render(createVirtual("p"))).toThrowError();
+  });
+  test("container can only have one root", () => {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    expect(() => createRoot(container)).toThrowError();
+    root.unmount();
+    createRoot(container).unmount();
+  });
+});
+
+describe("hydrateElement", () => {
+  const warn = config.warn;
+  afterEach(() => {
+    config.development = false;
+    config.warn = warn;
+  });
+  function hydrate(virtual: VirtualDOM<"div">) {
+    const html = parseHtml(renderToString(virtual)) as HTMLDivElement;
+    const nodes = [...html.querySelectorAll("*")];
+    hydrateElement(html, virtual);
+    return { html, nodes };
+  }
+  test("adopts existing nodes", () => {
+    const virtual = createVirtual(
+      "div",
+      { id: "main" },
+      createVirtual("h1", {}, "Title"),
+      createVirtual("p", {}, "Content")
+    );
+    const { html, nodes } = hydrate(virtual);
+    expect(html.outerHTML).toEqual(
+      '<div id="main"><h1>Title</h1><p>Content</p></div>'
+    );
+    expect([...html.querySelectorAll("*")]).toEqual(nodes);
+  });
+  test("attaches listeners", () => {
+    const virtual = createVirtual(
+      "div",
+      { onClick: handler1 },
+      createVirtual("button", { onClick: handler2 }, "Click")
+    );
+    const { html } = hydrate(virtual);
+    expect(registeredListeners(html)).toEqual({
+      click: [{ listener: handler1 }],
+    });
+    expect(registeredListeners(html.firstChild as Element)).toEqual({
+      click: [{ listener: handler2 }],
+    });
+  });
+  test("splits adjacent text", () => {
+    const virtual = createVirtual("div", {}, "Hello", " ", "World");
+    const { html } = hydrate(virtual);
+    expect(html.childNodes.length).toEqual(3);
+    updateElement(html, createVirtual("div", {}, "Hello", " ", "Moon"));
+    expect(html.outerHTML).toEqual("<div>Hello Moon</div>");
+  });
+  test("hydrates components", () => {
+    const Counter = ({ start }: { start: number }) => {
+      const [count, setCount] = useState(start);
+      return createVirtual(
+        "button",
+        { onClick: () => setCount(count + 1) },
+        String(count)
+      );
+    };
+    const virtual = createVirtual("div", {}, createVirtual(Counter, { start: 1 }));
+    const { html, nodes } = hydrate(virtual);
+    const button = html.firstChild as HTMLButtonElement;
+    expect(button).toBe(nodes[0]);
+    button.click();
+    expect(html.outerHTML).toEqual("<div><button>2</button></div>");
+    expect(html.firstChild).toBe(button);
+  });
+  test("patches mismatching attributes and text", () => {
+    config.development = true;
+    config.warn = vi.fn();
+    const html = parseHtml(
+      '<div><p class="foo" title="a">Hello</p></div>'
+    ) as HTMLDivElement;
+    const paragraph = html.firstChild;
+    hydrateElement(
+      html,
+      createVirtual("div", {}, createVirtual("p", { class: "bar" }, "World"))
+    );
+    expect(html.outerHTML).toEqual('<div><p class="bar">World</p></div>');
+    expect(html.firstChild).toBe(paragraph);
+    expect(config.warn).toHaveBeenCalledTimes(3);
+  });
+  test("replaces only mismatching subtree", () => {
+    config.development = true;
+    config.warn = vi.fn();
+    const html = parseHtml(
+      "<div><h1>Title</h1><span>Wrong</span><p>Content</p></div>"
+    ) as HTMLDivElement;
+    const [title, , content] = html.children;
+    hydrateElement(
+      html,
+      createVirtual(
+        "div",
+        {},
+        createVirtual("h1", {}, "Title"),
+        createVirtual("em", {}, "Right"),
+        createVirtual("p", {}, "Content")
+      )
+    );
+    expect(html.outerHTML).toEqual(
+      "<div><h1>Title</h1><em>Right</em><p>Content</p></div>"
+    );
+    expect(html.children[0]).toBe(title);
+    expect(html.children[2]).toBe(content);
+    expect(config.warn).toHaveBeenCalled();
+  });
+  test("removes unexpected nodes", () => {
+    const html = parseHtml("<div><p></p><p></p></div>") as HTMLDivElement;
+    hydrateElement(html, createVirtual("div", {}, createVirtual("p")));
+    expect(html.outerHTML).toEqual("<div><p></p></div>");
+  });
+  test("does not report outside of development mode", () => {
+    config.warn = vi.fn();
+    const html = parseHtml('<div title="a">Hello</div>') as HTMLDivElement;
+    hydrateElement(html, createVirtual("div", {}, "World"));
+    expect(html.outerHTML).toEqual("<div>World</div>");
+    expect(config.warn).not.toHaveBeenCalled();
+  });
+});
+
+describe("fragments", () => {
+  test("create virtual fragment", () => {
+    const virtual = createVirtual(Fragment, {}, "a", createVirtual("b"));
+    expect(virtual).toEqual({
+      tagName: Fragment,
+      children: ["a", { tagName: "b" }],
+    });
+  });
+  test("create element with fragment", () => {
+    const element = createElement(
+      createVirtual(
+        "ul",
+        {},
+        createVirtual("li", {}, "1"),
+        createVirtual(
+          Fragment,
+          {},
+          createVirtual("li", {}, "2"),
+          createVirtual(Fragment, {}, createVirtual("li", {}, "3"))
+        ),
+        createVirtual("li", {}, "4")
+      )
+    );
+    expect(element.outerHTML).toEqual(
+      "<ul><li>1</li><li>2</li><li>3</li><li>4</li></ul>"
+    );
+  });
+  test("update fragment", () => {
+    const html = parseHtml("<ul><li>1</li><li>2</li></ul>") as HTMLUListElement;
+    const [first, second] = html.children;
+    updateElement(
+      html,
+      createVirtual(
+        "ul",
+        {},
+        createVirtual(
+          Fragment,
+          {},
+          createVirtual("li", {}, "1"),
+          createVirtual("li", {}, "2"),
+          createVirtual("li", {}, "3")
+        )
+      )
+    );
+    expect(html.outerHTML).toEqual("<ul><li>1</li><li>2</li><li>3</li></ul>");
+    expect(html.children[0]).toBe(first);
+    expect(html.children[1]).toBe(second);
+  });
+  test("component returning fragment", () => {
+    const Rows = ({ count }: { count: number }) =>
+      createVirtual(
+        Fragment,
+        {},
+        ...Array.from({ length: count }, (_, i) =>
+          createVirtual("li", {}, String(i))
+        )
+      );
+    const html = parseHtml("<ul></ul>") as HTMLUListElement;
+    updateElement(html, createVirtual("ul", {}, createVirtual(Rows, { count: 2 })));
+    expect(html.outerHTML).toEqual("<ul><li>0</li><li>1</li></ul>");
+    updateElement(html, createVirtual("ul", {}, createVirtual(Rows, { count: 3 })));
+    expect(html.outerHTML).toEqual("<ul><li>0</li><li>1</li><li>2</li></ul>");
+  });
+  test("stateful component returning fragment", () => {
+    const Toggle = () => {
+      const [open, setOpen] = useState(false);
+      return createVirtual(
+        Fragment,
+        {},
+        createVirtual("button", { onClick: () => setOpen(!open) }, "Toggle"),
+        ...(open ? [createVirtual("p", {}, "Content")] : [])
+      );
+    };
+    const element = createElement(
+      createVirtual("div", {}, createVirtual(Toggle, {}), createVirtual("hr"))
+    );
+    (element.firstChild as HTMLButtonElement).click();
+    expect(element.outerHTML).toEqual(
+      "<div><button>Toggle</button><p>Content</p><hr></div>"
+    );
+    (element.firstChild as HTMLButtonElement).click();
+    expect(element.outerHTML).toEqual("<div><button>Toggle</button><hr></div>");
+  });
+});
+
+describe("keyed reordering", () => {
+  function keyedList(keys: string[]) {
+    return createVirtual(
+      "ul",
+      {},
+      ...keys.map((key) => createVirtual("li", { key }, key))
+    );
+  }
+  function countMoves(from: string[], to: string[]) {
+    const html = createElement(keyedList(from));
+    const nodes = new Map(
+      [...html.children].map((child) => [child.getAttribute("key"), child])
+    );
+    const insertBefore = vi.spyOn(html, "insertBefore");
+    const moveBefore =
+      "moveBefore" in html ? vi.spyOn(html, "moveBefore") : undefined;
+    updateElement(html, keyedList(to));
+    expect([...html.children].map((child) => child.textContent)).toEqual(to);
+    for (const child of html.children) {
+      const key = child.getAttribute("key");
+      if (nodes.has(key)) {
+        expect(child).toBe(nodes.get(key));
+      }
+    }
+    return insertBefore.mock.calls.length + (moveBefore?.mock.calls.length ?? 0);
+  }
+  const keys = Array.from({ length: 10 }, (_, i) => String(i));
+  test("unchanged", () => {
+    expect(countMoves(keys, keys)).toEqual(0);
+  });
+  test("swap", () => {
+    const swapped = [...keys];
+    [swapped[1], swapped[8]] = [swapped[8], swapped[1]];
+    expect(countMoves(keys, swapped)).toEqual(2);
+  });
+  test("move first to last", () => {
+    expect(countMoves(keys, [...keys.slice(1), keys[0]])).toEqual(1);
+  });
+  test("move last to first", () => {
+    expect(countMoves(keys, [keys[9], ...keys.slice(0, 9)])).toEqual(1);
+  });
+  test("reverse", () => {
+    expect(countMoves(keys, [...keys].reverse())).toEqual(9);
+  });
+  test("insert", () => {
+    expect(countMoves(keys, [...keys.slice(0, 5), "new", ...keys.slice(5)])).toEqual(1);
+  });
+  test("remove", () => {
+    expect(countMoves(keys, [...keys.slice(0, 5), ...keys.slice(6)])).toEqual(0);
+  });
+  test("preserves focus", () => {
+    const html = createElement(
+      createVirtual(
+        "div",
+        {},
+        createVirtual("input", { key: "a" }),
+        createVirtual("input", { key: "b" })
+      )
+    );
+    document.body.appendChild(html);
+    try {
+      const input = html.firstChild as HTMLInputElement;
+      input.value = "Hello";
+      input.focus();
+      input.setSelectionRange(1, 3);
+      updateElement(
+        html,
+        createVirtual(
+          "div",
+          {},
+          createVirtual("input", { key: "b" }),
+          createVirtual("input", { key: "a" })
+        )
+      );
+      expect(html.lastChild).toBe(input);
+      expect(document.activeElement).toBe(input);
+      expect([input.selectionStart, input.selectionEnd]).toEqual([1, 3]);
+    } finally {
+      html.remove();
+    }
+  });
+});
+
+describe("text children", () => {
+  test("create with mixed children", () => {
+    const html = createElement(
+      createVirtual("p", {}, "a", 1, null, undefined, true, false, 0, "b")
+    );
+    expect(html.outerHTML).toEqual("<p>a10b</p>");
+    expect(html.childNodes.length).toEqual(4);
+  });
+  test("create with nested arrays", () => {
+    const html = createElement(
+      createVirtual("ul", {}, [
+        createVirtual("li", {}, "1"),
+        [createVirtual("li", {}, "2"), [createVirtual("li", {}, "3")]],
+      ])
+    );
+    expect(html.outerHTML).toEqual("<ul><li>1</li><li>2</li><li>3</li></ul>");
+  });
+  test("update duplicate texts", () => {
+    const html = createElement(createVirtual("p", {}, "a", ", ", "b", ", ", "c"));
+    const nodes = [...html.childNodes];
+    updateElement(html, createVirtual("p", {}, "a", ", ", "b", ", ", "d"));
+    expect(html.outerHTML).toEqual("<p>a, b, d</p>");
+    expect([...html.childNodes]).toEqual(nodes);
+    updateElement(html, createVirtual("p", {}, "a", ", ", "d"));
+    expect(html.outerHTML).toEqual("<p>a, d</p>");
+    expect(html.childNodes.length).toEqual(3);
+  });
+  test("update text in place", () => {
+    const html = createElement(createVirtual("p", {}, "Count: ", 1));
+    const [label, count] = [...html.childNodes];
+    updateElement(html, createVirtual("p", {}, "Count: ", 2));
+    expect(html.outerHTML).toEqual("<p>Count: 2</p>");
+    expect(html.childNodes[0]).toBe(label);
+    expect(html.childNodes[1]).toBe(count);
+  });
+  test("update texts between elements", () => {
+    const html = createElement(
+      createVirtual("p", {}, "x", createVirtual("b", {}, "1"), "x", createVirtual("i"))
+    );
+    const bold = html.children[0];
+    updateElement(
+      html,
+      createVirtual("p", {}, "y", createVirtual("b", {}, "1"), "x", "z", createVirtual("i"))
+    );
+    expect(html.outerHTML).toEqual("<p>y<b>1</b>xz<i></i></p>");
+    expect(html.children[0]).toBe(bold);
+  });
+  test("update skipped children", () => {
+    const html = createElement(createVirtual("div", {}, "a", false, "b"));
+    updateElement(html, createVirtual("div", {}, "a", createVirtual("hr"), "b"));
+    expect(html.outerHTML).toEqual("<div>a<hr>b</div>");
+    updateElement(html, createVirtual("div", {}, "a", null, "b"));
+    expect(html.outerHTML).toEqual("<div>ab</div>");
+  });
+});
+
+describe("listeners", () => {
+  test("create virtual with listener list", () => {
+    const virtual = createVirtual("p", {
+      onClick: [handler1, { listener: handler2, options: { once: true } }],
+    });
+    expect(virtual).toEqual({
+      tagName: "p",
+      listeners: {
+        click: [
+          { listener: handler1 },
+          { listener: handler2, options: { once: true } },
+        ],
+      },
+    });
+  });
+  test("dispatch multiple listeners in order", () => {
+    const log: string[] = [];
+    const element = createElement(
+      createVirtual("button", {
+        onClick: [() => log.push("first"), () => log.push("second")],
+      })
+    );
+    element.click();
+    expect(log).toEqual(["first", "second"]);
+  });
+  test("update listener options", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    const add = vi.spyOn(html, "addEventListener");
+    const remove = vi.spyOn(html, "removeEventListener");
+    updateElement(html, createVirtual("div", { onClick: handler1 }));
+    updateElement(
+      html,
+      createVirtual("div", {
+        onClick: { listener: handler1, options: { capture: true } },
+      })
+    );
+    expect(remove).toHaveBeenCalledWith("click", handler1, undefined);
+    expect(add).toHaveBeenLastCalledWith("click", handler1, { capture: true });
+    add.mockClear();
+    remove.mockClear();
+    updateElement(
+      html,
+      createVirtual("div", {
+        onClick: { listener: handler1, options: { capture: true } },
+      })
+    );
+    expect(add).not.toHaveBeenCalled();
+    expect(remove).not.toHaveBeenCalled();
+  });
+  test("update listener list", () => {
+    const log: string[] = [];
+    const first = () => log.push("first");
+    const second = () => log.push("second");
+    const html = createElement(createVirtual("button", { onClick: [first] }));
+    const add = vi.spyOn(html, "addEventListener");
+    updateElement(html, createVirtual("button", { onClick: [first, second] }));
+    expect(add).toHaveBeenCalledTimes(1);
+    html.click();
+    updateElement(html, createVirtual("button", { onClick: [second] }));
+    html.click();
+    expect(log).toEqual(["first", "second", "second"]);
+    expect(registeredListeners(html)).toEqual({ click: [{ listener: second }] });
+  });
+});
+
+describe("delegated events", () => {
+  test("dispatch from the container", () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container, { delegateEvents: true });
+    const log: Array<[string, EventTarget | null]> = [];
+    root.render(
+      createVirtual(
+        "ul",
+        { onClick: (event: Event) => log.push(["ul", event.currentTarget]) },
+        createVirtual("li", {
+          onClick: (event: Event) => log.push(["li", event.currentTarget]),
+        })
+      )
+    );
+    flushSync();
+    const ul = container.firstChild as HTMLUListElement;
+    const li = ul.firstChild as HTMLLIElement;
+    expect(registeredListeners(li)).toBeUndefined();
+    li.click();
+    expect(log).toEqual([
+      ["li", li],
+      ["ul", ul],
+    ]);
+    root.unmount();
+    container.remove();
+  });
+  test("stop propagation", () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container, { delegateEvents: true });
+    const log: string[] = [];
+    root.render(
+      createVirtual(
+        "div",
+        { onClick: () => log.push("outer") },
+        createVirtual("button", {
+          onClick: (event: Event) => {
+            log.push("inner");
+            event.stopPropagation();
+          },
+        })
+      )
+    );
+    flushSync();
+    (container.querySelector("button") as HTMLButtonElement).click();
+    expect(log).toEqual(["inner"]);
+    root.unmount();
+    container.remove();
+  });
+  test("dispatch events that do not bubble to their target", () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container, { delegateEvents: true });
+    const log: string[] = [];
+    root.render(
+      createVirtual(
+        "div",
+        { onFocus: () => log.push("outer") },
+        createVirtual("input", { onFocus: () => log.push("inner") })
+      )
+    );
+    flushSync();
+    (container.querySelector("input") as HTMLInputElement).focus();
+    expect(log).toEqual(["inner"]);
+    root.unmount();
+    container.remove();
+  });
+  test("attach listeners with options", () => {
+    const container = document.createElement("div");
+    const root = createRoot(container, { delegateEvents: true });
+    const listener = { listener: handler1, options: { passive: true } };
+    root.render(createVirtual("div", { onTouchStart: listener }));
+    flushSync();
+    expect(registeredListeners(container.firstChild as Element)).toEqual({
+      touchstart: [listener],
+    });
+    root.unmount();
+  });
+  test("unmount removes the container listeners", () => {
+    const container = document.createElement("div");
+    const remove = vi.spyOn(container, "removeEventListener");
+    const root = createRoot(container, { delegateEvents: true });
+    root.render(createVirtual("button", { onClick: handler1 }));
+    flushSync();
+    root.unmount();
+    expect(remove).toHaveBeenCalledWith("click", expect.any(Function));
+    expect(remove).toHaveBeenCalledWith("click", expect.any(Function), true);
+  });
+  test("dispatch after the listeners attached to the elements", () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container, { delegateEvents: true });
+    const log: string[] = [];
+    root.render(
+      createVirtual("button", {
+        onClick: (event: Event) => {
+          log.push("delegated");
+          event.stopPropagation();
+        },
+      })
+    );
+    flushSync();
+    const button = container.querySelector("button") as HTMLButtonElement;
+    button.addEventListener("click", () => log.push("attached"));
+    button.click();
+    expect(log).toEqual(["attached", "delegated"]);
+    root.unmount();
+    container.remove();
+  });
+});
+
+describe("refs and lifecycle hooks", () => {
+  test("create virtual with ref and hooks", () => {
+    const ref = { current: null };
+    const onMount = () => {};
+    const virtual = createVirtual("p", { ref, onMount });
+    expect(virtual).toEqual({ tagName: "p", ref, onMount });
+  });
+  test("assign object ref", () => {
+    const ref = createRefObject();
+    const html = createElement(
+      createVirtual("div", {}, createVirtual("input", { ref }))
+    );
+    expect(ref.current).toBe(html.firstChild);
+    updateElement(html, createVirtual("div"));
+    expect(ref.current).toBeNull();
+  });
+  test("assign callback ref", () => {
+    const log: Array<Element | null> = [];
+    const ref = (element: Element | null) => log.push(element);
+    const html = createElement(createVirtual("div", {}, createVirtual("p", { ref })));
+    const p = html.firstChild;
+    updateElement(html, createVirtual("div", {}, createVirtual("p", { ref })));
+    updateElement(html, createVirtual("div", {}, createVirtual("p")));
+    expect(log).toEqual([p, null]);
+  });
+  test("change ref", () => {
+    const first = createRefObject();
+    const second = createRefObject();
+    const html = createElement(createVirtual("div", {}, createVirtual("p", { ref: first })));
+    updateElement(html, createVirtual("div", {}, createVirtual("p", { ref: second })));
+    expect(first.current).toBeNull();
+    expect(second.current).toBe(html.firstChild);
+  });
+  test("call hooks in order", () => {
+    const log: string[] = [];
+    const hooks = (name: string) => ({
+      onMount: () => log.push(`mount ${name}`),
+      onUpdate: () => log.push(`update ${name}`),
+      onUnmount: () => log.push(`unmount ${name}`),
+    });
+    const html = createElement(
+      createVirtual(
+        "div",
+        hooks("div"),
+        createVirtual("ul", hooks("ul"), createVirtual("li", hooks("li"))),
+        createVirtual("p", hooks("p"))
+      )
+    );
+    expect(log.splice(0)).toEqual(["mount li", "mount ul", "mount p", "mount div"]);
+    updateElement(
+      html,
+      createVirtual("div", hooks("div"), createVirtual("p", hooks("p")))
+    );
+    expect(log.splice(0)).toEqual([
+      "update p",
+      "unmount ul",
+      "unmount li",
+      "update div",
+    ]);
+  });
+  test("call hooks of hydrated elements", () => {
+    const html = parseHtml("<div><p>Hello</p></div>") as HTMLDivElement;
+    const onMount = vi.fn();
+    hydrateElement(html, createVirtual("div", {}, createVirtual("p", { onMount }, "Hello")));
+    expect(onMount).toHaveBeenCalledWith(html.firstChild);
+  });
+  test("call unmount hooks when unmounting a root", () => {
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    const onUnmount = vi.fn();
+    root.render(createVirtual("p", { onUnmount }));
+    flushSync();
+    const p = container.firstChild;
+    root.unmount();
+    expect(onUnmount).toHaveBeenCalledWith(p);
+  });
+  test("assign refs before running effects", () => {
+    const log: Array<Element | null> = [];
+    const Focus = () => {
+      const ref = useRef<Element | null>(null);
+      useEffect(() => {
+        log.push(ref.current);
+      }, []);
+      return createVirtual("input", { ref });
+    };
+    const html = createElement(createVirtual("div", {}, createVirtual(Focus, {})));
+    expect(log).toEqual([html.firstChild]);
+  });
+});
+
+function createRefObject(): { current: Element | null } {
+  return { current: null };
+}
+
+describe("toVirtual", () => {
+  test("as simple as it gets", () => {
+    expect(toVirtual(parseHtml("<p></p>"))).toEqual({ tagName: "p" });
+  });
+  test("with attributes and children", () => {
+    const html = parseHtml('<ul class="list"><li key="1">One</li><!-- x --><li>Two</li></ul>');
+    expect(toVirtual(html)).toEqual(
+      createVirtual(
+        "ul",
+        { class: "list" },
+        createVirtual("li", { key: "1" }, "One"),
+        createVirtual("li", {}, "Two")
+      )
+    );
+  });
+  test("with namespaces", () => {
+    const html = parseHtml(
+      '<div><svg><a xlink:href="#x"></a><foreignObject><p></p></foreignObject></svg></div>'
+    );
+    expect(toVirtual(html)).toEqual({
+      tagName: "div",
+      children: [
+        {
+          tagName: "svg",
+          children: [
+            { tagName: "a", attributes: { "xlink:href": "#x" } },
+            { tagName: "foreignObject", children: [{ tagName: "p" }] },
+          ],
+        },
+      ],
+    });
+    const link = toVirtual(html.querySelector("a")!);
+    expect(link.namespaceURI).toEqual(SVG_NAMESPACE);
+  });
+  test("with listeners and properties", () => {
+    const element = createElement(
+      createVirtual("input", {
+        onInput: handler1,
+        onClick: [handler1, handler2],
+        ".value": "foo",
+      })
+    );
+    expect(toVirtual(element)).toEqual({
+      tagName: "input",
+      listeners: {
+        input: { listener: handler1 },
+        click: [{ listener: handler1 }, { listener: handler2 }],
+      },
+      properties: { value: "foo" },
+    });
+  });
+  test("round-trip through createElement", () => {
+    const html = parseHtml(
+      '<div id="main"><h1 style="color: red;">Title</h1><svg viewBox="0 0 1 1"><path d="M0 0"/></svg>Text</div>'
+    );
+    expect(createElement(toVirtual(html)).outerHTML).toEqual(html.outerHTML);
+  });
+  test("round-trip through updateElement", () => {
+    const html = parseHtml("<div><p>Old</p></div>") as HTMLDivElement;
+    const target = parseHtml('<div class="new"><p>New</p><hr></div>');
+    updateElement(html, toVirtual(target));
+    expect(html.outerHTML).toEqual(target.outerHTML);
+  });
+});
+
+describe("parseVirtual", () => {
+  test("parse elements and texts", () => {
+    expect(parseVirtual('Hello <b class="name">World</b>!')).toEqual([
+      "Hello ",
+      createVirtual("b", { class: "name" }, "World"),
+      "!",
+    ]);
+  });
+  test("parse nothing", () => {
+    expect(parseVirtual("")).toEqual([]);
+  });
+  test("parse inert", () => {
+    const [image] = parseVirtual('<img src="x" onerror="alert(1)">');
+    expect(image).toEqual({
+      tagName: "img",
+      attributes: { src: "x", onerror: "alert(1)" },
+    });
+  });
+});
+
+describe("raw HTML", () => {
+  test("create raw", () => {
+    expect(createRaw("<p>a</p>")).toEqual({ html: "<p>a</p>" });
+    expect(createRaw("<p>a</p>", { tags: ["p"] })).toEqual({
+      html: "<p>a</p>",
+      sanitize: { tags: ["p"] },
+    });
+  });
+  test("create element with raw child", () => {
+    const html = createElement(
+      createVirtual(
+        "div",
+        {},
+        "Before",
+        createRaw('<p onclick="alert(1)">Hello <script>x</script>World</p>'),
+        "After"
+      )
+    );
+    expect(html.outerHTML).toEqual("<div>Before<p>Hello World</p>After</div>");
+  });
+  test("create element with custom allowlist", () => {
+    const html = createElement(
+      createVirtual("div", {}, createRaw("<p><em>a</em></p>", { tags: ["em"] }))
+    );
+    expect(html.outerHTML).toEqual("<div><em>a</em></div>");
+  });
+  test("update keeps unchanged raw nodes", () => {
+    const html = createElement(
+      createVirtual("div", {}, createRaw("<p>a</p><p>b</p>"), createVirtual("hr"))
+    );
+    const nodes = [...html.childNodes];
+    updateElement(
+      html,
+      createVirtual("div", {}, createVirtual("h1"), createRaw("<p>a</p><p>b</p>"), createVirtual("hr"))
+    );
+    expect(html.outerHTML).toEqual("<div><h1></h1><p>a</p><p>b</p><hr></div>");
+    expect(html.childNodes[1]).toBe(nodes[0]);
+    expect(html.childNodes[2]).toBe(nodes[1]);
+  });
+  test("update replaces changed raw nodes", () => {
+    const html = createElement(createVirtual("div", {}, createRaw("<p>a</p>")));
+    const p = html.firstChild;
+    updateElement(html, createVirtual("div", {}, createRaw("<p>b</p>")));
+    expect(html.outerHTML).toEqual("<div><p>b</p></div>");
+    expect(html.firstChild).not.toBe(p);
+  });
+  test("update does not reuse raw nodes as elements", () => {
+    const html = createElement(createVirtual("div", {}, createRaw("<p>a</p>")));
+    const p = html.firstChild;
+    updateElement(html, createVirtual("div", {}, createVirtual("p", {}, "b")));
+    expect(html.outerHTML).toEqual("<div><p>b</p></div>");
+    expect(html.firstChild).not.toBe(p);
+    updateElement(html, createVirtual("div"));
+    expect(html.outerHTML).toEqual("<div></div>");
+  });
+  test("hydrate raw nodes", () => {
+    const html = parseHtml("<div><h1>Title</h1><p>a</p><p>b</p></div>") as HTMLDivElement;
+    const nodes = [...html.childNodes];
+    hydrateElement(
+      html,
+      createVirtual("div", {}, createVirtual("h1", {}, "Title"), createRaw("<p>a</p><p>b</p>"))
+    );
+    expect([...html.childNodes]).toEqual(nodes);
+    updateElement(
+      html,
+      createVirtual("div", {}, createVirtual("h1", {}, "Title"), createRaw("<p>a</p><p>b</p>"))
+    );
+    expect([...html.childNodes]).toEqual(nodes);
+  });
+});
+
+describe("instrumentation", () => {
+  const warn = config.warn;
+  afterEach(() => {
+    config.instrument = undefined;
+    config.development = false;
+    config.warn = warn;
+  });
+  function record(callback: () => void): Operation[] {
+    const operations: Operation[] = [];
+    config.instrument = (operation) => operations.push(operation);
+    callback();
+    config.instrument = undefined;
+    return operations;
+  }
+  test("record attribute operations", () => {
+    const html = parseHtml('<div id="a" title="b"></div>') as HTMLDivElement;
+    const operations = record(() =>
+      updateElement(html, createVirtual("div", { id: "c" }))
+    );
+    expect(operations).toEqual([
+      { type: "setAttribute", element: html, name: "id", value: "c" },
+      { type: "removeAttribute", element: html, name: "title" },
+    ]);
+  });
+  test("record listener operations", () => {
+    const html = parseHtml("<div></div>") as HTMLDivElement;
+    updateElement(html, createVirtual("div", { onClick: handler1 }));
+    const operations = record(() =>
+      updateElement(html, createVirtual("div", { onClick: handler2 }))
+    );
+    expect(operations).toEqual([
+      {
+        type: "removeEventListener",
+        element: html,
+        name: "click",
+        listener: { listener: handler1 },
+      },
+      {
+        type: "addEventListener",
+        element: html,
+        name: "click",
+        listener: { listener: handler2 },
+      },
+    ]);
+  });
+  test("record child operations", () => {
+    const html = parseHtml(
+      '<ul><li key="1"></li><li key="2"></li><li key="3"></li>Text</ul>'
+    ) as HTMLUListElement;
+    const [first, second, third, text] = [...html.childNodes];
+    const operations = record(() =>
+      updateElement(
+        html,
+        createVirtual(
+          "ul",
+          {},
+          createVirtual("li", { key: "3" }),
+          createVirtual("li", { key: "1" }),
+          createVirtual("li", { key: "4" }),
+          "Changed"
+        )
+      )
+    );
+    const created = html.childNodes[2];
+    expect(operations).toEqual([
+      { type: "setAttribute", element: created, name: "key", value: "4" },
+      { type: "text", node: text, value: "Changed" },
+      { type: "remove", parent: html, node: second },
+      { type: "create", parent: html, node: created },
+      { type: "move", parent: html, node: third },
+    ]);
+    expect(html.childNodes[1]).toBe(first);
+  });
+  test("warn about duplicate keys", () => {
+    config.development = true;
+    config.warn = vi.fn();
+    createElement(
+      createVirtual(
+        "ul",
+        {},
+        createVirtual("li", { key: "1" }),
+        createVirtual("li", { key: "1" })
+      )
+    );
+    expect(config.warn).toHaveBeenCalledWith(
+      'Duplicate key "1" among the children of <ul>.',
+      expect.anything()
+    );
+  });
+  test("warn about keys on text", () => {
+    config.development = true;
+    config.warn = vi.fn();
+    createElement(
+      createVirtual("p", {}, createVirtual(Fragment, { key: "1" }, "Text"))
+    );
+    expect(config.warn).toHaveBeenCalledWith(
+      'Key "1" has no effect on the text children of a fragment in <p>.',
+      expect.anything()
+    );
+  });
+  test("warn about tag changes under the same key", () => {
+    const html = parseHtml('<div><p key="1"></p></div>') as HTMLDivElement;
+    config.development = true;
+    config.warn = vi.fn();
+    updateElement(html, createVirtual("div", {}, createVirtual("h1", { key: "1" })));
+    expect(config.warn).toHaveBeenCalledWith(
+      'Key "1" changed from <p> to <h1> in <div>, the element is recreated.',
+      expect.anything()
+    );
+  });
+});
+
+describe("async children", () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+  test("render resolved promise", async () => {
+    const { promise, resolve } = Promise.withResolvers<VirtualChild>();
+    const html = createElement(createVirtual("div", {}, "A", promise, "C"));
+    expect(html.outerHTML).toBe("<div>AC</div>");
+    resolve(createVirtual("b", {}, "B"));
+    await tick();
+    expect(html.outerHTML).toBe("<div>A<b>B</b>C</div>");
+  });
+  test("render fallback", async () => {
+    const { promise, resolve } = Promise.withResolvers<string>();
+    const html = createElement(
+      createVirtual(
+        "div",
+        {},
+        createAsync(promise, {
+          render: (value) => createVirtual("p", {}, value),
+          fallback: createVirtual("span", {}, "Loading"),
+        })
+      )
+    );
+    expect(html.outerHTML).toBe("<div><span>Loading</span></div>");
+    resolve("Done");
+    await tick();
+    expect(html.outerHTML).toBe("<div><p>Done</p></div>");
+  });
+  test("render error", async () => {
+    const { promise, reject } = Promise.withResolvers<string>();
+    const html = createElement(
+      createVirtual(
+        "div",
+        {},
+        createAsync(promise, {
+          error: (error) => createVirtual("p", {}, String(error)),
+        })
+      )
+    );
+    reject("Failed");
+    await tick();
+    expect(html.outerHTML).toBe("<div><p>Failed</p></div>");
+  });
+  test("load lazily", async () => {
+    const load = vi.fn(async () => "Loaded");
+    const html = createElement(createVirtual("div", {}, load));
+    expect(load).toHaveBeenCalledTimes(1);
+    await tick();
+    expect(html.outerHTML).toBe("<div>Loaded</div>");
+    updateElement(html, createVirtual("div", {}, load));
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(html.outerHTML).toBe("<div>Loaded</div>");
+  });
+  test("cancel on re-render", async () => {
+    const first = Promise.withResolvers<VirtualChild>();
+    const signals: AbortSignal[] = [];
+    const load = (signal: AbortSignal) => {
+      signals.push(signal);
+      return first.promise;
+    };
+    const html = createElement(createVirtual("div", {}, load));
+    updateElement(html, createVirtual("div", {}, Promise.resolve("Second")));
+    expect(signals[0].aborted).toBe(true);
+    first.resolve("First");
+    await tick();
+    expect(html.outerHTML).toBe("<div>Second</div>");
+  });
+  test("cancel on unmount", () => {
+    let signal: AbortSignal | undefined;
+    const html = createElement(
+      createVirtual("div", {}, (each: AbortSignal) => {
+        signal = each;
+        return new Promise<VirtualChild>(() => {});
+      })
+    );
+    updateElement(html, createVirtual("div"));
+    expect(signal?.aborted).toBe(true);
+  });
+  test("suspense fallback", async () => {
+    const { promise, resolve } = Promise.withResolvers<VirtualChild>();
+    const Data = () => createAsync(promise);
+    const html = createElement(
+      createVirtual(
+        "div",
+        {},
+        createVirtual(
+          Suspense,
+          { fallback: createVirtual("p", {}, "Loading") },
+          createVirtual("h1", {}, "Title"),
+          createVirtual(Data, {})
+        )
+      )
+    );
+    expect(html.outerHTML).toBe(
+      '<div><wf-suspense style="display: none;"><h1>Title</h1></wf-suspense>' +
+        "<p>Loading</p></div>"
+    );
+    resolve(createVirtual("b", {}, "Data"));
+    await tick();
+    expect(html.outerHTML).toBe(
+      '<div><wf-suspense style="display: contents;"><h1>Title</h1>' +
+        "<b>Data</b></wf-suspense></div>"
+    );
+  });
+  test("suspense ignores own fallbacks", () => {
+    const html = createElement(
+      createVirtual(
+        "div",
+        {},
+        createVirtual(
+          Suspense,
+          { fallback: "Loading" },
+          createAsync(new Promise(() => {}), { fallback: "Waiting" })
+        )
+      )
+    );
+    expect(html.outerHTML).toBe(
+      '<div><wf-suspense style="display: contents;">Waiting</wf-suspense></div>'
+    );
+  });
+  test("suspense error", async () => {
+    const { promise, reject } = Promise.withResolvers<VirtualChild>();
+    const html = createElement(
+      createVirtual(
+        "div",
+        {},
+        createVirtual(
+          Suspense,
+          { error: (error) => createVirtual("p", {}, String(error)) },
+          createVirtual("section", {}, promise)
+        )
+      )
+    );
+    reject("Failed");
+    await tick();
+    expect(html.outerHTML).toBe("<div><p>Failed</p></div>");
+  });
 });
@@ -1,10 +1,90 @@
+import {
+  type SanitizeOptions,
+  type TrustedHTML,
+  DEFAULT_SANITIZE_OPTIONS,
+  parseHTML,
+} from "./sanitize.js";
+
 export const KEY_ATTRIBUTE = "key";
+export const Fragment = "#fragment";
+export const PROPERTY_PREFIX = ".";
 export const REGISTERED_LISTENERS = Symbol("__registered_listeners");
+export const REGISTERED_DELEGATES = Symbol("__registered_delegates");
+export const REGISTERED_PROPERTIES = Symbol("__registered_properties");
+export const REGISTERED_STYLES = Symbol("__registered_styles");
+export const REGISTERED_CLASSES = Symbol("__registered_classes");
+export const REGISTERED_COMPONENTS = Symbol("__registered_components");
+export const REGISTERED_ROOT = Symbol("__registered_root");
+export const REGISTERED_LIFECYCLE = Symbol("__registered_lifecycle");
+export const REGISTERED_RAW = Symbol("__registered_raw");
+export const REGISTERED_BOUNDARY = Symbol("__registered_boundary");
+
+// Well-known namespaces.
+export const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+export const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+export const MATHML_NAMESPACE = "http://www.w3.org/1998/Math/MathML";
+export const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+export const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+export const XMLNS_NAMESPACE = "http://www.w3.org/2000/xmlns/";
+
+/** Global configuration of the virtual DOM. */
+export const config = {
+  /** Enables additional checks and warnings during development. */
+  development: false,
+  /** Reports the warnings emitted in development mode. */
+  warn: (message: string, ...details: unknown[]) => {
+    console.warn(message, ...details);
+  },
+  /** Allowlists of the sanitizer applied to raw HTML children. */
+  sanitizer: DEFAULT_SANITIZE_OPTIONS as SanitizeOptions,
+  /**
+   * Receives every operation performed on the DOM while reconciling, for
+   * debugging or to assert the minimal patches in tests.
+   */
+  instrument: undefined as ((operation: Operation) => void) | undefined,
+};
+
+/** An operation performed on the DOM, as reported to `config.instrument`. */
+export type Operation =
+  | { type: "create"; parent: Node; node: Node }
+  | { type: "remove"; parent: Node; node: Node }
+  | { type: "move"; parent: Node; node: Node }
+  | { type: "text"; node: Text; value: string }
+  | { type: "setAttribute"; element: Element; name: string; value: string }
+  | { type: "removeAttribute"; element: Element; name: string }
+  | {
+      type: "addEventListener";
+      element: Element;
+      name: string;
+      listener: Listener;
+    }
+  | {
+      type: "removeEventListener";
+      element: Element;
+      name: string;
+      listener: Listener;
+    };
+
+// Namespaces of prefixed attribute names, such as `xlink:href`.
+const ATTRIBUTE_NAMESPACES: Record<string, string> = {
+  xlink: XLINK_NAMESPACE,
+  xml: XML_NAMESPACE,
+  xmlns: XMLNS_NAMESPACE,
+};
 
 // DOM Extensions.
 declare global {
   interface EventTarget {
-    [REGISTERED_LISTENERS]?: Listeners;
+    [REGISTERED_LISTENERS]?: RegisteredListeners;
+    [REGISTERED_DELEGATES]?: RegisteredListeners;
+    [REGISTERED_PROPERTIES]?: Properties;
+    [REGISTERED_STYLES]?: Set<string>;
+    [REGISTERED_CLASSES]?: Set<string>;
+    [REGISTERED_COMPONENTS]?: Components;
+    [REGISTERED_ROOT]?: RootState;
+    [REGISTERED_LIFECYCLE]?: Lifecycle;
+    [REGISTERED_RAW]?: RawBlock;
+    [REGISTERED_BOUNDARY]?: Boundary;
   }
   interface Node {
     moveBefore<T extends Node>(node: T, child: Node | null): T;
@@ -13,30 +93,286 @@ declare global {
 
 // Types used for the virtual DOM specification.
 type Attributes = Record<string, string>;
-type Listener = { listener: EventListenerOrEventListenerObject, options?: AddEventListenerOptions }
-type Listeners = Record<string, Listener>;
-type Children = Array<string | VirtualDOM<any>>;
+export type Listener = { listener: EventListenerOrEventListenerObject, options?: AddEventListenerOptions }
+type Listeners = Record<string, Listener | Listener[]>;
+type RegisteredListeners = Record<string, Listener[]>;
+type Properties = Record<string, unknown>;
+export type Style = Record<string, string | number | null | undefined>;
+export type Classes =
+  | Array<string | false | null | undefined>
+  | Record<string, boolean | null | undefined>;
+type Children = VirtualChild[];
 
-/** Specification of a DOM node. */
+/** A reference to an element, as a callback or as an object. */
+export type Ref<E = Element> =
+  | ((element: E | null) => void)
+  | { current: E | null };
+
+/**
+ * Specification of a DOM node. A node with the tag name `Fragment` is no
+ * element itself, instead its children are inserted in its place.
+ */
 export interface VirtualDOM<E> {
   /** The tag name of the element. */
   tagName: E;
-  /** The namespace URL of the element. */
+  /**
+   * The namespace URL of the element. If omitted, `svg` and `math` elements
+   * start their respective namespace, and all other elements inherit the
+   * namespace of their parent.
+   */
   namespaceURI?: string;
   /** Attributes of the element. */
   attributes?: Attributes;
-  /** Listeners attached to the element. */
+  /** Listeners attached to the element, one or a list per event type. */
   listeners?: Listeners;
+  /**
+   * Properties assigned to the element, such as `value` or `checked`. These
+   * are compared against the live element on every update.
+   */
+  properties?: Properties;
+  /**
+   * Inline style properties of the element, in camel-case, kebab-case or as
+   * CSS custom properties (`--name`). Replaces the `style` attribute, and
+   * leaves style properties not managed by the specification untouched.
+   */
+  style?: Style;
+  /**
+   * Class tokens of the element, as a list or as a record of conditions.
+   * Replaces the `class` attribute, and leaves class tokens not managed by the
+   * specification untouched.
+   */
+  classes?: Classes;
   /** Children of the element. */
   children?: Children;
+  /**
+   * Reference receiving the element once it is mounted, and `null` once it
+   * is removed.
+   */
+  ref?: Ref;
+  /** Called once the element and its children are created or adopted. */
+  onMount?: (element: Element) => void;
+  /** Called once the element and its children are updated. */
+  onUpdate?: (element: Element) => void;
+  /** Called once the element is removed. */
+  onUnmount?: (element: Element) => void;
+}
+
+/** A function component, rendering its props to a specification. */
+export type Component<P = any> = (
+  props: P
+) => VirtualDOM<any> | ComponentDOM<any>;
+
+/** Specification of a component instance. */
+export interface ComponentDOM<P> {
+  /** The function rendering the component. */
+  component: Component<P>;
+  /** The props passed into the component, optionally with a `key`. */
+  props: P;
+}
+
+// Ref and unmount hook of an element, stored on the element.
+interface Lifecycle {
+  ref?: Ref;
+  onUnmount?: (element: Element) => void;
+}
+
+/**
+ * Specification of raw HTML markup, rendered as an opaque block of nodes that
+ * is only replaced when the markup changes.
+ */
+export interface RawDOM {
+  /** The markup, sanitized unless it is a `TrustedHTML` value. */
+  html: string | TrustedHTML;
+  /** Allowlists of the sanitizer, overriding those of `config.sanitizer`. */
+  sanitize?: SanitizeOptions;
+}
+
+// Nodes rendered from raw HTML, stored on each of the nodes.
+interface RawBlock {
+  html: string;
+  nodes: Node[];
+}
+
+/**
+ * Source of asynchronous children: a promise, or a function loading them once
+ * they are first rendered. The function receives a signal that is aborted
+ * once the result is no longer needed.
+ */
+export type AsyncSource<T = VirtualChild> =
+  | PromiseLike<T>
+  | ((signal: AbortSignal) => PromiseLike<T>);
+
+/** Options of the [createAsync] function. */
+export interface AsyncOptions<T> {
+  /** Renders the resolved value, otherwise the value is rendered as is. */
+  render?: (value: T) => VirtualChild;
+  /**
+   * Rendered while pending, otherwise the closest `Suspense` boundary renders
+   * its fallback.
+   */
+  fallback?: VirtualChild;
+  /**
+   * Renders the reason of a rejection, otherwise the closest `Suspense`
+   * boundary handles it.
+   */
+  error?: (error: unknown) => VirtualChild;
+  /** Key identifying the asynchronous child among its siblings. */
+  key?: string;
+}
+
+/** Props of the [Suspense] component. */
+export interface SuspenseProps {
+  /** Rendered while asynchronous children within the boundary are pending. */
+  fallback?: VirtualChild;
+  /** Renders the reason of a rejection within the boundary. */
+  error?: (error: unknown) => VirtualChild;
+  /** Children of the boundary. */
+  children?: VirtualChild[];
+}
+
+// Props of the component rendering asynchronous children.
+interface AsyncProps extends Omit<AsyncOptions<any>, "key"> {
+  source: AsyncSource<any>;
+}
+
+// State of the source of an asynchronous child, replaced once it changes.
+interface AsyncState {
+  source: AsyncSource<any>;
+  status: "pending" | "resolved" | "rejected";
+  value?: unknown;
+  controller: AbortController;
+}
+
+// Suspense boundary, stored on the element wrapping its children.
+interface Boundary {
+  pending: Set<AsyncState>;
+  update(): void;
+  fail(error: unknown): void;
+}
+
+// Ref and lifecycle hooks of a specification.
+type LifecycleProps = Pick<
+  VirtualDOM<any>,
+  "ref" | "onMount" | "onUpdate" | "onUnmount"
+>;
+
+// State of a component instance, stored on the parent element.
+interface ComponentInstance {
+  component: Component;
+  key: string;
+  props: any;
+  parent: Element | ShadowRoot;
+  hooks: unknown[];
+  hookIndex: number;
+  effects: EffectHook[];
+  output?: VirtualDOM<any> | ComponentDOM<any>;
+  dirty: boolean;
+  unmounted: boolean;
+  // Instance whose output rendered this instance, if any.
+  owner?: ComponentInstance;
+  // Range of the rendered child nodes of the parent produced by the instance.
+  start: number;
+  end: number;
+}
+
+// State of an effect hook.
+interface EffectHook {
+  dependencies?: unknown[];
+  cleanup?: void | (() => void);
+  initialized: boolean;
+}
+
+// Component instances of an element, and the children they were expanded from.
+interface Components {
+  children: Children;
+  instances: ComponentInstance[];
+  // Rendered child nodes, unknown until the children are updated once.
+  nodes?: Node[];
+}
+
+// State of an expansion of children into their rendered output.
+interface Expansion {
+  parent: Element | ShadowRoot;
+  available: Map<string, ComponentInstance[]>;
+  instances: ComponentInstance[];
+  result: Array<string | VirtualDOM<any> | RawDOM>;
+}
+
+/** Strategy used by a root to schedule its renders. */
+export type Scheduler = "microtask" | "animationFrame";
+
+/** Options of the [createRoot] function. */
+export interface RootOptions {
+  /** Schedules renders in a microtask (default) or an animation frame. */
+  scheduler?: Scheduler;
+  /**
+   * Installs a single listener per event type on the container, that
+   * dispatches to the listeners of the rendered elements, instead of
+   * attaching them to every element. Listeners with options are still
+   * attached to their elements.
+   */
+  delegateEvents?: boolean;
+}
+
+/** A container whose children are rendered by scheduled reconciliations. */
+export interface Root {
+  /** The container element of the root. */
+  readonly container: Element;
+  /** Schedules the children of the container to be updated to `children`. */
+  render(...children: VirtualChild[]): void;
+  /** Removes all rendered nodes, their listeners and components. */
+  unmount(): void;
+}
+
+// State of a root, stored on its container.
+interface RootState {
+  container: Element;
+  scheduler: Scheduler;
+  delegateEvents: boolean;
+  delegatedEvents: Set<string>;
+  children?: Children;
+  renderPending: boolean;
+  instances: Set<ComponentInstance>;
+  unmounted: boolean;
 }
 
 // Types used for the [createVirtual] function.
-type VirtualProps = Record<string, string | EventListenerOrEventListenerObject | Listener>;
-type VirtualChild = string | VirtualDOM<any>;
+type VirtualProps = Record<string, unknown>;
+
+/**
+ * A child of a specification. Numbers are rendered as text, `null`,
+ * `undefined` and booleans are skipped, and nested arrays are flattened.
+ * Promises and loader functions are rendered once resolved, like the
+ * children created by `createAsync`.
+ */
+export type VirtualChild =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | VirtualDOM<any>
+  | ComponentDOM<any>
+  | RawDOM
+  | PromiseLike<VirtualChild>
+  | ((signal: AbortSignal) => PromiseLike<VirtualChild>)
+  | VirtualChild[];
 
 /**
  * Helper to creates a `VirtualDOM` node given the arguments.
+ *
+ * Props starting with `on` and holding a function, handler object or
+ * `Listener`, or a list thereof, become listeners. Props starting with a `.`
+ * (for example `.value`) become properties. A `style` object and a `class`
+ * list or record become structured styles and classes. The `ref` prop and the
+ * `onMount`, `onUpdate` and `onUnmount` hooks are kept as such. All other
+ * props become attributes: `true` results in an empty (boolean) attribute,
+ * `false`, `null` and `undefined` omit the attribute, and everything else is
+ * converted to a string.
+ *
+ * Given a `Component` function instead of a tag name, creates a
+ * `ComponentDOM` with the props and children passed to the component. Given
+ * `Fragment`, creates a fragment whose children are inserted in its place.
  */
 export function createVirtual<E extends keyof HTMLElementTagNameMap>(
   tagName: E,
@@ -48,31 +384,85 @@ export function createVirtual<E extends keyof SVGElementTagNameMap>(
   props?: VirtualProps,
   ...children: VirtualChild[]
 ): VirtualDOM<E>;
-export function createVirtual<E extends string = string>(
+export function createVirtual<E extends keyof MathMLElementTagNameMap>(
   tagName: E,
   props?: VirtualProps,
   ...children: VirtualChild[]
-): VirtualDOM<E> {
+): VirtualDOM<E>;
+export function createVirtual(
+  tagName: typeof Fragment,
+  props?: VirtualProps,
+  ...children: VirtualChild[]
+): VirtualDOM<typeof Fragment>;
+export function createVirtual<P>(
+  component: Component<P>,
+  props: Omit<P, "children"> & { key?: string },
+  ...children: VirtualChild[]
+): ComponentDOM<P>;
+export function createVirtual<E extends string = string>(
+  tagName: E | Component,
+  props?: VirtualProps,
+  ...children: VirtualChild[]
+): VirtualDOM<E> | ComponentDOM<any> {
+  // Create the virtual component.
+  if (typeof tagName === "function") {
+    return {
+      component: tagName,
+      props: children.length > 0 ? { ...props, children } : { ...props },
+    };
+  }
   // Prepare the function arguments.
   let attributes: Attributes | undefined;
   let listeners: Listeners | undefined;
-  // Create the attributes and listeners.
+  let properties: Properties | undefined;
+  let style: Style | undefined;
+  let classes: Classes | undefined;
+  const lifecycle: LifecycleProps = {};
+  // Create the attributes, listeners, properties, styles and classes.
   if (props) {
     for (const [name, value] of Object.entries(props)) {
+      if (name === "ref" && value) {
+        lifecycle.ref = value as Ref;
+        continue;
+      }
+      if (
+        (name === "onMount" || name === "onUpdate" || name === "onUnmount") &&
+        typeof value === "function"
+      ) {
+        lifecycle[name] = value as (element: Element) => void;
+        continue;
+      }
+      if (name.startsWith(PROPERTY_PREFIX)) {
+        (properties ??= {})[name.slice(PROPERTY_PREFIX.length)] = value;
+        continue;
+      }
+      if (name === "style" && typeof value === "object" && value !== null) {
+        style = value as Style;
+        continue;
+      }
+      if (name === "class" && typeof value === "object" && value !== null) {
+        classes = value as Classes;
+        continue;
+      }
       if (name.startsWith("on")) {
-        let listener: Listener | undefined;
-        if (typeof value === 'function' || (typeof value === 'object' && 'handleEvent' in value)) {
-          listener = { listener: value };
-        } else if (typeof value === 'object' && 'listener' in value) {
-          listener = value;
+        let listener: Listener | Listener[] | undefined;
+        if (Array.isArray(value)) {
+          const list = value.map(toListener);
+          if (list.every((each) => each !== undefined)) {
+            listener = list as Listener[];
+          }
+        } else {
+          listener = toListener(value);
         }
         if (listener) {
           (listeners ??= {})[name.slice(2).toLowerCase()] = listener;
           continue;
         }
       }
-      if (value) {
-        (attributes ??= {})[name] = value.toString();
+      if (value === true) {
+        (attributes ??= {})[name] = "";
+      } else if (value !== false && value !== null && value !== undefined) {
+        (attributes ??= {})[name] = String(value);
       }
     }
   }
@@ -81,13 +471,188 @@ export function createVirtual<E extends string = string>(
     tagName,
     attributes,
     listeners,
+    properties,
+    style,
+    classes,
     children: children.length > 0 ? children : undefined,
+    ...lifecycle,
   };
 }
 
+/**
+ * Helper to create a `RawDOM` child rendering HTML markup, such as content
+ * provided by a CMS. String markup passes through the sanitizer configured in
+ * `config.sanitizer`, optionally with the allowlists of `sanitize` instead,
+ * which removes scripts, event-handler attributes and unsafe URLs. A
+ * `TrustedHTML` value created by a Trusted Types policy is rendered as is.
+ *
+ * @example
+ * createVirtual("article", {}, createRaw(post.body, { tags: ["p", "a"] }));
+ */
+export function createRaw(
+  html: string | TrustedHTML,
+  sanitize?: SanitizeOptions
+): RawDOM {
+  return sanitize ? { html, sanitize } : { html };
+}
+
+/**
+ * Helper to create an asynchronous child, rendering `fallback` until the
+ * `source` resolves and then the resolved value. If the parent re-renders the
+ * child with a different source first, the previous source is cancelled: its
+ * result is ignored, and the signal passed to a loader function is aborted.
+ * Sources are compared by identity, so memoize them with `useMemo` within
+ * components. Without a `fallback` or `error` option, the closest `Suspense`
+ * boundary handles the pending state and the rejection respectively.
+ *
+ * @example
+ * createVirtual(
+ *   "section",
+ *   {},
+ *   createAsync((signal) => fetchUser(id, { signal }), {
+ *     render: (user) => createVirtual("h1", {}, user.name),
+ *     fallback: createVirtual("p", {}, "Loading..."),
+ *     error: () => createVirtual("p", {}, "Failed to load the user."),
+ *   })
+ * );
+ */
+export function createAsync<T = VirtualChild>(
+  source: AsyncSource<T>,
+  { key, ...options }: AsyncOptions<T> = {}
+): ComponentDOM<AsyncProps> {
+  return createVirtual(Async, { key, source, ...options });
+}
+
+/**
+ * Component rendering a boundary around asynchronous children that have no
+ * fallback of their own. While any of them is pending, the children are
+ * hidden and the `fallback` is rendered instead, so that the components
+ * loading data need no loading state of their own. Rejections within the
+ * boundary replace the children with the rendered `error`. The children are
+ * wrapped in a `wf-suspense` element with `display: contents`.
+ *
+ * @example
+ * createVirtual(
+ *   Suspense,
+ *   { fallback: createVirtual("p", {}, "Loading...") },
+ *   createVirtual(UserProfile, { id }),
+ *   createVirtual(UserPosts, { id })
+ * );
+ */
+export function Suspense({
+  fallback,
+  error,
+  children = [],
+}: SuspenseProps): VirtualDOM<typeof Fragment> {
+  const [pending, setPending] = useState(0);
+  const [failure, setFailure] = useState<
+    { error: unknown; children: VirtualChild[] } | undefined
+  >(undefined);
+  const boundary = useMemo<Boundary>(
+    () => ({
+      pending: new Set(),
+      update: () => setPending(boundary.pending.size),
+      fail: (reason) => {
+        if (!errorRef.current) {
+          reportError(reason);
+        } else {
+          setFailure({ error: reason, children: childrenRef.current });
+        }
+      },
+    }),
+    []
+  );
+  const errorRef = useRef(error);
+  const childrenRef = useRef(children);
+  errorRef.current = error;
+  childrenRef.current = children;
+  // A rejection is rendered until the children change.
+  if (error && failure?.children === children) {
+    return createVirtual(Fragment, {}, error(failure.error));
+  }
+  return createVirtual(
+    Fragment,
+    {},
+    createVirtual(
+      "wf-suspense" as keyof HTMLElementTagNameMap,
+      {
+        style: { display: pending > 0 ? "none" : "contents" },
+        ref: (element: Element | null) => {
+          if (element) element[REGISTERED_BOUNDARY] = boundary;
+        },
+      },
+      ...children
+    ),
+    pending > 0 ? fallback : null
+  );
+}
+
+// Internal component rendering an asynchronous child. Rendered without being
+// mounted, for example on a server, the fallback is rendered without loading.
+function Async({ source, render, fallback, error }: AsyncProps) {
+  const instance = getCurrentInstance();
+  const [, setVersion] = useState(0);
+  const state = useRef<AsyncState | undefined>(undefined);
+  if (state.current?.source !== source && !instance.unmounted) {
+    state.current?.controller.abort();
+    const current: AsyncState = {
+      source,
+      status: "pending",
+      controller: new AbortController(),
+    };
+    state.current = current;
+    const settle = (status: AsyncState["status"], value: unknown) => {
+      if (state.current !== current) return;
+      current.status = status;
+      current.value = value;
+      setVersion((version) => version + 1);
+    };
+    (typeof source === "function" ? source(current.controller.signal) : source)
+      .then(
+        (value) => settle("resolved", value),
+        (reason) => settle("rejected", reason)
+      );
+  }
+  const current = state.current;
+  useEffect(() => () => state.current?.controller.abort(), []);
+  // Report the pending state and the rejection to the closest boundary.
+  useEffect(() => {
+    if (current?.status === "pending" && fallback === undefined) {
+      const boundary = findBoundary(instance.parent);
+      if (!boundary) return;
+      boundary.pending.add(current);
+      boundary.update();
+      return () => {
+        boundary.pending.delete(current);
+        boundary.update();
+      };
+    }
+    if (current?.status === "rejected" && !error) {
+      const boundary = findBoundary(instance.parent);
+      if (boundary) {
+        boundary.fail(current.value);
+      } else {
+        reportError(current.value);
+      }
+    }
+  }, [current, current?.status]);
+  let child: VirtualChild = fallback;
+  if (current?.status === "resolved") {
+    child = render ? render(current.value) : (current.value as VirtualChild);
+  } else if (current?.status === "rejected") {
+    child = error?.(current.value);
+  }
+  return createVirtual(Fragment, {}, child);
+}
+
 /**
  * Given a `VirtualDOM` specification, recursively constructs a DOM tree.
  *
+ * The optional `parentNamespace` is the namespace the element is created in,
+ * unless it is specified explicitly or is an `svg` or `math` root. Children
+ * inherit the namespace of their parent, with the exception of the children of
+ * an SVG `foreignObject` that are created as HTML again.
+ *
  * This function takes a `VirtualDOM` object, which describes the desired
  * element (including its tag name, attributes, event listeners, and children),
  * and creates the corresponding DOM element. If the `children` array in the
@@ -110,46 +675,50 @@ export function createVirtual<E extends string = string>(
  * document.body.appendChild(element);
  */
 export function createElement<E extends keyof HTMLElementTagNameMap>(
-  virtual: VirtualDOM<E>
+  virtual: VirtualDOM<E>,
+  parentNamespace?: string
 ): HTMLElementTagNameMap[E];
 export function createElement<E extends keyof SVGElementTagNameMap>(
-  virtual: VirtualDOM<E>
+  virtual: VirtualDOM<E>,
+  parentNamespace?: string
 ): SVGElementTagNameMap[E];
-export function createElement<E extends Element = Element>({
-  tagName,
-  namespaceURI,
-  attributes,
-  listeners,
-  children,
-}: VirtualDOM<string>): E {
-  const element = namespaceURI
-    ? document.createElementNS(namespaceURI, tagName)
-    : document.createElement(tagName);
-  // Set attributes.
-  if (attributes) {
-    for (const [name, value] of Object.entries(attributes)) {
-      element.setAttribute(name, value);
-    }
-  }
-  // Add event listeners.
-  if (listeners) {
-    for (const [name, value] of Object.entries(listeners)) {
-      element.addEventListener(name, value.listener, value.options);
-      const registeredListeners = (element[REGISTERED_LISTENERS] ??= {});
-      registeredListeners[name] = value;
-    }
-  }
-  // Add child nodes.
-  if (children) {
-    for (const child of children) {
-      if (typeof child === "object") {
-        element.appendChild(createElement(child));
-      } else {
-        element.appendChild(document.createTextNode(child.toString()));
-      }
-    }
-  }
-  return element as E;
+export function createElement<E extends keyof MathMLElementTagNameMap>(
+  virtual: VirtualDOM<E>,
+  parentNamespace?: string
+): MathMLElementTagNameMap[E];
+export function createElement<E extends Element = Element>(
+  {
+    tagName,
+    namespaceURI,
+    attributes,
+    listeners,
+    properties,
+    style,
+    classes,
+    children,
+    ...lifecycle
+  }: VirtualDOM<string>,
+  parentNamespace?: string
+): E {
+  return batch(() => {
+    const element = document.createElementNS(
+      resolveNamespace(tagName, namespaceURI, parentNamespace),
+      tagName
+    );
+    // Set attributes, styles and classes.
+    updateAttributes(element, attributes, getStructuredAttributes(style, classes));
+    updateStyle(element, style);
+    updateClasses(element, classes);
+    // Add event listeners.
+    updateListeners(element, listeners);
+    // Add child nodes.
+    updateChildren(element, children);
+    // Assign properties, after the children so that `value` of a `select` can
+    // refer to its options.
+    updateProperties(element, properties);
+    updateLifecycle(element, lifecycle, true);
+    return element as E;
+  });
 }
 
 /**
@@ -159,7 +728,7 @@ export function createElement<E extends Element = Element>({
  * This function efficiently modifies the provided `element` in place to reflect
  * the state described by the `options` (a `VirtualDOM` object). It updates
  * attributes, event listeners, and children, aiming to make only necessary
- * changes to the DOM.
+ * changes to the DOM. Given a `ShadowRoot`, only its children are updated.
  *
  * @example
  * let value = 0;
@@ -197,120 +766,1701 @@ export function updateElement<E extends keyof SVGElementTagNameMap>(
   element: SVGElementTagNameMap[E],
   options: VirtualDOM<E>
 ): SVGElementTagNameMap[E];
-export function updateElement<E extends Element = Element>(
+export function updateElement<E extends keyof MathMLElementTagNameMap>(
+  element: MathMLElementTagNameMap[E],
+  options: VirtualDOM<E>
+): MathMLElementTagNameMap[E];
+export function updateElement(
+  root: ShadowRoot,
+  options: Pick<VirtualDOM<string>, "children">
+): ShadowRoot;
+export function updateElement<E extends Element | ShadowRoot = Element>(
+  element: E,
+  {
+    attributes,
+    listeners,
+    properties,
+    style,
+    classes,
+    children,
+    ...lifecycle
+  }: Omit<VirtualDOM<string>, "tagName">
+): E {
+  return batch(() => {
+    if (!(element instanceof Element)) {
+      updateChildren(element, children);
+      return element;
+    }
+    updateAttributes(element, attributes, getStructuredAttributes(style, classes));
+    updateStyle(element, style);
+    updateClasses(element, classes);
+    updateListeners(element, listeners);
+    updateChildren(element, children);
+    updateProperties(element, properties);
+    updateLifecycle(element, lifecycle, false);
+    return element;
+  });
+}
+
+/**
+ * Given an existing DOM Element or `ShadowRoot`, updates its children to match
+ * the given children. Contrary to `updateElement`, the attributes, listeners,
+ * styles, classes and properties of the element itself are left untouched, so
+ * that the element can be owned by other code.
+ *
+ * @example
+ * updateElementChildren(document.body, createVirtual(App, {}));
+ */
+export function updateElementChildren<E extends Element | ShadowRoot>(
+  element: E,
+  ...children: VirtualChild[]
+): E {
+  return batch(() => {
+    updateChildren(element, children);
+    return element;
+  });
+}
+
+/**
+ * Given an existing DOM Element, typically rendered on the server with
+ * `renderToString`, and a `VirtualDOM` specification, adopts the existing
+ * nodes and attaches the listeners of the specification.
+ *
+ * Contrary to `updateElement`, children are adopted in order instead of being
+ * matched by tag and key, and adjacent text children that were merged into a
+ * single text node are split up again. Mismatching attributes and text are
+ * patched in place, and mismatching nodes are replaced by newly created ones,
+ * leaving the rest of the tree untouched. In development mode, every mismatch
+ * is reported through `config.warn`.
+ *
+ * @example
+ * hydrateElement(document.getElementById("app"), createVirtual("div", {
+ *   id: "app",
+ * }, createVirtual(App, {})));
+ */
+export function hydrateElement<E extends keyof HTMLElementTagNameMap>(
+  element: HTMLElementTagNameMap[E],
+  options: VirtualDOM<E>
+): HTMLElementTagNameMap[E];
+export function hydrateElement<E extends keyof SVGElementTagNameMap>(
+  element: SVGElementTagNameMap[E],
+  options: VirtualDOM<E>
+): SVGElementTagNameMap[E];
+export function hydrateElement<E extends keyof MathMLElementTagNameMap>(
+  element: MathMLElementTagNameMap[E],
+  options: VirtualDOM<E>
+): MathMLElementTagNameMap[E];
+export function hydrateElement<E extends Element = Element>(
   element: E,
-  { attributes, listeners, children }: Omit<VirtualDOM<string>, "tagName">
+  {
+    attributes,
+    listeners,
+    properties,
+    style,
+    classes,
+    children,
+    ...lifecycle
+  }: Omit<VirtualDOM<string>, "tagName">
 ): E {
-  updateAttributes(element, attributes);
-  updateListeners(element, listeners);
-  updateChildren(element, children);
-  return element;
+  return batch(() => {
+    if (config.development) {
+      reportAttributeMismatches(element, attributes, style, classes);
+    }
+    updateAttributes(element, attributes, getStructuredAttributes(style, classes));
+    updateStyle(element, style);
+    updateClasses(element, classes);
+    updateListeners(element, listeners);
+    hydrateChildren(element, children);
+    updateProperties(element, properties);
+    updateLifecycle(element, lifecycle, true);
+    return element;
+  });
+}
+
+/**
+ * Given an existing DOM Element, creates a `VirtualDOM` specification that
+ * recreates it, the inverse of `createElement`.
+ *
+ * The specification contains the attributes (including `style` and `class`)
+ * and the child elements and texts of the element, while comments are
+ * omitted. The namespace is only included where it cannot be inferred. The
+ * listeners and properties registered by previous updates are included too.
+ *
+ * @example
+ * expect(toVirtual(element)).toEqual(
+ *   createVirtual("ul", { class: "list" }, createVirtual("li", {}, "One"))
+ * );
+ */
+export function toVirtual(element: Element): VirtualDOM<any> {
+  return snapshotElement(element, undefined);
+}
+
+/**
+ * Parses an HTML string into a list of `VirtualDOM` specifications and texts,
+ * using a `template` element. The markup is parsed inert, scripts are not run
+ * and resources are not loaded.
+ *
+ * @example
+ * const [list] = parseVirtual('<ul class="list"><li>One</li></ul>');
+ */
+export function parseVirtual(html: string): Array<string | VirtualDOM<any>> {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  return snapshotChildren(template.content, HTML_NAMESPACE);
+}
+
+/**
+ * Returns a stateful value, and a function to update it. Updating the value
+ * re-renders the calling component.
+ *
+ * @example
+ * function Counter({ start }: { start: number }) {
+ *   const [count, setCount] = useState(start);
+ *   return createVirtual(
+ *     "button",
+ *     { onClick: () => setCount((value) => value + 1) },
+ *     String(count)
+ *   );
+ * }
+ *
+ * updateElement(document.body, {
+ *   children: [createVirtual(Counter, { start: 0 })],
+ * });
+ */
+export function useState<T>(
+  initial: T | (() => T)
+): [T, (value: T | ((previous: T) => T)) => void] {
+  const instance = getCurrentInstance();
+  const hook = getHook(() => {
+    const state = {
+      value: initial instanceof Function ? initial() : initial,
+      setValue: (value: T | ((previous: T) => T)) => {
+        const next = value instanceof Function ? value(state.value) : value;
+        if (!Object.is(state.value, next)) {
+          state.value = next;
+          invalidateInstance(instance);
+        }
+      },
+    };
+    return state;
+  });
+  return [hook.value, hook.setValue];
+}
+
+/**
+ * Runs an `effect` after the component has been rendered, that is once the
+ * outermost `createElement` or `updateElement` call completes, and again
+ * whenever one of the `dependencies` changes. If the effect returns a
+ * function, it is called to clean up before the effect runs again and when the
+ * component is removed.
+ */
+export function useEffect(
+  effect: () => void | (() => void),
+  dependencies?: unknown[]
+) {
+  const instance = getCurrentInstance();
+  const hook = getHook(() => {
+    const effect: EffectHook = { initialized: false };
+    instance.effects.push(effect);
+    return effect;
+  });
+  if (hook.initialized && !dependenciesChanged(hook.dependencies, dependencies)) {
+    return;
+  }
+  hook.initialized = true;
+  hook.dependencies = dependencies;
+  if (instance.unmounted) return;
+  pendingEffects.push(() => {
+    if (instance.unmounted) return;
+    hook.cleanup?.();
+    hook.cleanup = effect();
+  });
+}
+
+/**
+ * Returns the memoized result of the `factory`, that is only recomputed when
+ * one of the `dependencies` changes.
+ */
+export function useMemo<T>(factory: () => T, dependencies: unknown[]): T {
+  const hook = getHook(() => ({
+    dependencies: undefined as unknown[] | undefined,
+    value: undefined as T,
+    initialized: false,
+  }));
+  if (!hook.initialized || dependenciesChanged(hook.dependencies, dependencies)) {
+    hook.initialized = true;
+    hook.dependencies = dependencies;
+    hook.value = factory();
+  }
+  return hook.value;
+}
+
+/**
+ * Returns a mutable object whose `current` value persists for the lifetime of
+ * the component, without re-rendering it when changed.
+ */
+export function useRef<T>(initial: T): { current: T } {
+  return getHook(() => ({ current: initial }));
+}
+
+/**
+ * Renders a component once, without mounting it. Its hooks only ever see their
+ * initial state, and its effects are never run. This is used to render
+ * components outside of a DOM, for example on a server.
+ */
+export function renderComponent<P>({
+  component,
+  props,
+}: ComponentDOM<P>): VirtualDOM<any> | ComponentDOM<any> {
+  const instance: ComponentInstance = {
+    component,
+    key: "",
+    props,
+    parent: undefined!,
+    hooks: [],
+    hookIndex: 0,
+    effects: [],
+    dirty: true,
+    unmounted: true,
+    start: 0,
+    end: 0,
+  };
+  renderInstance(instance);
+  return instance.output!;
+}
+
+/**
+ * Returns the namespace of an element with the given `tagName` and optional
+ * explicit `namespaceURI`, when created within `parentNamespace`.
+ */
+export function resolveNamespace(
+  tagName: string,
+  namespaceURI: string | undefined,
+  parentNamespace: string = HTML_NAMESPACE
+): string {
+  if (namespaceURI) return namespaceURI;
+  switch (tagName.toLowerCase()) {
+    case "svg":
+      return SVG_NAMESPACE;
+    case "math":
+      return MATHML_NAMESPACE;
+    default:
+      return parentNamespace;
+  }
+}
+
+/**
+ * Returns the kebab-case style properties and their string values of a
+ * structured style specification.
+ */
+export function getStyleProperties(style: Style = {}): Map<string, string> {
+  const properties = new Map<string, string>();
+  for (const [name, value] of Object.entries(style)) {
+    if (value !== null && value !== undefined) {
+      properties.set(toStylePropertyName(name), String(value));
+    }
+  }
+  return properties;
+}
+
+/** Returns the class tokens of a structured class specification. */
+export function getClassTokens(classes: Classes = []): Set<string> {
+  const tokens = new Set<string>();
+  const entries = Array.isArray(classes)
+    ? classes
+    : Object.entries(classes).map(([name, value]) => value && name);
+  for (const entry of entries) {
+    if (entry) {
+      for (const token of entry.split(/\s+/)) {
+        if (token) tokens.add(token);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Creates a root rendering into the children of the `container` element.
+ *
+ * Contrary to `updateElement`, the root does not patch the DOM synchronously:
+ * calls to `render` and state changes of the components within the root are
+ * collected, and reconciled in a single pass in the next microtask or
+ * animation frame. Use `flushSync` to apply the pending work immediately.
+ *
+ * With `delegateEvents`, the listeners of the rendered elements are dispatched
+ * by the container once events bubble up to it, which reduces the cost of
+ * rendering large lists. Listeners attached to the elements run first, and
+ * events that do not bubble are dispatched while captured by the container.
+ * The `currentTarget` of the event is the element the listener is registered
+ * on, and `stopPropagation` stops the dispatch to its ancestors.
+ *
+ * @example
+ * const root = createRoot(document.body);
+ * root.render(createVirtual(App, {}));
+ */
+export function createRoot(
+  container: Element,
+  { scheduler = "microtask", delegateEvents = false }: RootOptions = {}
+): Root {
+  if (container[REGISTERED_ROOT]) {
+    throw new Error("The container is already the root of a render tree.");
+  }
+  const state: RootState = {
+    container,
+    scheduler,
+    delegateEvents,
+    delegatedEvents: new Set(),
+    renderPending: false,
+    instances: new Set(),
+    unmounted: false,
+  };
+  container[REGISTERED_ROOT] = state;
+  return {
+    container,
+    render(...children: VirtualChild[]) {
+      if (state.unmounted) {
+        throw new Error("The root has been unmounted.");
+      }
+      state.children = children;
+      state.renderPending = true;
+      scheduleRoot(state);
+    },
+    unmount() {
+      if (state.unmounted) return;
+      state.unmounted = true;
+      scheduledRoots.delete(state);
+      delete container[REGISTERED_ROOT];
+      batch(() => {
+        for (const node of [...container.childNodes]) {
+          releaseNode(node);
+          container.removeChild(node);
+        }
+        // Components rendered directly into the container are stored on it.
+        const instances = container[REGISTERED_COMPONENTS]?.instances ?? [];
+        for (const instance of instances) {
+          unmountInstance(instance);
+        }
+        delete container[REGISTERED_COMPONENTS];
+      });
+      for (const name of state.delegatedEvents) {
+        container.removeEventListener(name, dispatchDelegatedEvent);
+        container.removeEventListener(name, dispatchDelegatedCapture, true);
+      }
+      state.delegatedEvents.clear();
+    },
+  };
+}
+
+/**
+ * Runs the optional `callback`, and then synchronously applies all the work
+ * scheduled by roots. This is useful in tests, or before measuring the DOM.
+ */
+export function flushSync<T>(callback?: () => T): T | undefined {
+  const result = callback?.();
+  flushRoots();
+  return result;
 }
 
 
-// Internal helper to in-place update attributes.
-function updateAttributes(element: Element, attributes: Attributes = {}) {
+// Internal helper to in-place update attributes, except for the `ignored`
+// ones that are managed otherwise.
+function updateAttributes(
+  element: Element,
+  attributes: Attributes = {},
+  ignored: string[] = []
+) {
   const namesToRemove = [];
   for (const name of element.getAttributeNames()) {
-    if (!attributes[name]) {
+    if (attributes[name] === undefined && !ignored.includes(name)) {
       namesToRemove.push(name);
     }
   }
+  // Plain `style` and `class` attributes take over from the structured styles
+  // and classes, whose values must not be removed again afterwards.
+  if (attributes.style !== undefined && !ignored.includes("style")) {
+    element[REGISTERED_STYLES]?.clear();
+  }
+  if (attributes.class !== undefined && !ignored.includes("class")) {
+    element[REGISTERED_CLASSES]?.clear();
+  }
   for (const [name, value] of Object.entries(attributes)) {
+    if (ignored.includes(name)) continue;
     if (element.getAttribute(name) !== value) {
-      element.setAttribute(name, value);
+      setAttribute(element, name, value);
+      config.instrument?.({ type: "setAttribute", element, name, value });
     }
   }
   for (const name of namesToRemove) {
     element.removeAttribute(name);
+    config.instrument?.({ type: "removeAttribute", element, name });
   }
 }
 
 
-// Internal helper to in-place update event listeners.
+// Internal helper to in-place update event listeners. Within a root that
+// delegates events, the listeners without options are registered for the
+// container to dispatch them, all others are attached to the element.
 function updateListeners(element: Element, listeners: Listeners = {}) {
-  const registeredListeners = (element[REGISTERED_LISTENERS] ??= {});
-  for (const [name, value] of Object.entries(registeredListeners)) {
-    if (listeners[name]?.listener !== value.listener) {
-      element.removeEventListener(name, value.listener, value.options);
-      delete registeredListeners[name];
+  const attached: RegisteredListeners = {};
+  const delegated: RegisteredListeners = {};
+  const root =
+    Object.keys(listeners).length > 0 ? findDelegatingRoot(element) : undefined;
+  for (const [name, value] of Object.entries(listeners)) {
+    for (const listener of Array.isArray(value) ? value : [value]) {
+      const target = root && !listener.options ? delegated : attached;
+      (target[name] ??= []).push(listener);
     }
   }
-  for (const [name, value] of Object.entries(listeners)) {
-    if (registeredListeners[name]?.listener !== value.listener) {
-      element.addEventListener(name, value.listener, value.options);
-      registeredListeners[name] = value;
+  updateRegisteredListeners(element, REGISTERED_LISTENERS, attached, true);
+  updateRegisteredListeners(element, REGISTERED_DELEGATES, delegated, false);
+  for (const name of Object.keys(delegated)) {
+    if (!root!.delegatedEvents.has(name)) {
+      root!.delegatedEvents.add(name);
+      root!.container.addEventListener(name, dispatchDelegatedEvent);
+      root!.container.addEventListener(name, dispatchDelegatedCapture, true);
+    }
+  }
+}
+
+// Updates the listeners registered under `symbol`, and optionally attaches
+// them to the element. The common prefix of the old and new listeners of an
+// event type is kept, the rest is replaced so that the order is preserved.
+function updateRegisteredListeners(
+  element: Element,
+  symbol: typeof REGISTERED_LISTENERS | typeof REGISTERED_DELEGATES,
+  listeners: RegisteredListeners,
+  attach: boolean
+) {
+  let registered = element[symbol];
+  if (!registered) {
+    if (Object.keys(listeners).length === 0) return;
+    registered = element[symbol] = {};
+  }
+  for (const name of new Set([
+    ...Object.keys(registered),
+    ...Object.keys(listeners),
+  ])) {
+    const oldList = registered[name] ?? [];
+    const newList = listeners[name] ?? [];
+    let common = 0;
+    while (
+      common < oldList.length &&
+      common < newList.length &&
+      oldList[common].listener === newList[common].listener &&
+      shallowEqual(oldList[common].options ?? {}, newList[common].options ?? {})
+    ) {
+      common++;
+    }
+    if (attach) {
+      for (const listener of oldList.slice(common)) {
+        element.removeEventListener(name, listener.listener, listener.options);
+        config.instrument?.({
+          type: "removeEventListener",
+          element,
+          name,
+          listener,
+        });
+      }
+      for (const listener of newList.slice(common)) {
+        element.addEventListener(name, listener.listener, listener.options);
+        config.instrument?.({
+          type: "addEventListener",
+          element,
+          name,
+          listener,
+        });
+      }
+    }
+    if (newList.length > 0) {
+      registered[name] = newList;
+    } else {
+      delete registered[name];
+    }
+  }
+}
+
+// Returns the root delegating the events of the element, either the root
+// currently being reconciled or the closest root of an attached element.
+function findDelegatingRoot(element: Element): RootState | undefined {
+  const root = currentRoot ?? findRoot(element);
+  return root?.delegateEvents && !root.unmounted ? root : undefined;
+}
+
+// Dispatches a bubbling event to the delegated listeners once it bubbled up
+// to the root container, after the listeners attached within the container,
+// which can stop its propagation.
+function dispatchDelegatedEvent(event: Event) {
+  if (event.bubbles) dispatchToDelegates(event);
+}
+
+// Dispatches an event that does not bubble while it is captured by the root
+// container, since it would not reach the container otherwise.
+function dispatchDelegatedCapture(event: Event) {
+  if (!event.bubbles) dispatchToDelegates(event);
+}
+
+// Dispatches an event received by a root container to the delegated listeners
+// of the elements between its target and the container.
+function dispatchToDelegates(event: Event) {
+  const path = event.composedPath();
+  const end = path.indexOf(event.currentTarget!);
+  // Events that do not bubble are only dispatched to their target.
+  const targets = path.slice(0, event.bubbles ? end : Math.min(end, 1));
+  for (const target of targets) {
+    const listeners = target[REGISTERED_DELEGATES]?.[event.type];
+    if (!listeners) continue;
+    Object.defineProperty(event, "currentTarget", {
+      configurable: true,
+      value: target,
+    });
+    try {
+      for (const { listener } of [...listeners]) {
+        if (typeof listener === "function") {
+          listener.call(target, event);
+        } else {
+          listener.handleEvent(event);
+        }
+      }
+    } finally {
+      delete (event as { currentTarget?: EventTarget }).currentTarget;
+    }
+    if (event.cancelBubble) break;
+  }
+}
+
+// Converts a listener prop into a `Listener`, if it is one.
+function toListener(value: unknown): Listener | undefined {
+  if (
+    typeof value === "function" ||
+    (typeof value === "object" && value !== null && "handleEvent" in value)
+  ) {
+    return { listener: value as EventListenerOrEventListenerObject };
+  }
+  if (typeof value === "object" && value !== null && "listener" in value) {
+    return value as Listener;
+  }
+  return undefined;
+}
+
+
+// Internal helper to register the ref and unmount hook of an element, and to
+// queue the ref assignment and the mount or update hook for the end of the
+// reconciliation, once the children are in place.
+function updateLifecycle(
+  element: Element,
+  { ref, onMount, onUpdate, onUnmount }: LifecycleProps,
+  mount: boolean
+) {
+  const previousRef = element[REGISTERED_LIFECYCLE]?.ref;
+  if (ref || onUnmount) {
+    element[REGISTERED_LIFECYCLE] = { ref, onUnmount };
+  } else {
+    delete element[REGISTERED_LIFECYCLE];
+  }
+  const hook = mount ? onMount : onUpdate;
+  if (previousRef === ref && !hook) return;
+  pendingLifecycles.push(() => {
+    if (previousRef !== ref) {
+      assignRef(previousRef, null);
+      assignRef(ref, element);
+    }
+    hook?.(element);
+  });
+}
+
+// Assigns the element to a callback or object ref.
+function assignRef(ref: Ref | undefined, element: Element | null) {
+  if (typeof ref === "function") {
+    ref(element);
+  } else if (ref) {
+    ref.current = element;
+  }
+}
+
+// Returns the attributes managed by structured styles and classes.
+function getStructuredAttributes(style?: Style, classes?: Classes): string[] {
+  const result = [];
+  if (style) result.push("style");
+  if (classes) result.push("class");
+  return result;
+}
+
+
+// Internal helper to in-place update the inline style properties. Only the
+// properties set by a previous specification are ever removed.
+function updateStyle(element: Element, style: Style = {}) {
+  const registeredStyles = (element[REGISTERED_STYLES] ??= new Set());
+  const declaration = (element as Element & ElementCSSInlineStyle).style;
+  const properties = getStyleProperties(style);
+  for (const name of registeredStyles) {
+    if (!properties.has(name)) {
+      declaration.removeProperty(name);
+      registeredStyles.delete(name);
+    }
+  }
+  for (const [name, value] of properties) {
+    if (declaration.getPropertyValue(name) !== value) {
+      declaration.setProperty(name, value);
+    }
+    registeredStyles.add(name);
+  }
+}
+
+
+// Internal helper to in-place update the class tokens. Only the tokens added
+// by a previous specification are ever removed.
+function updateClasses(element: Element, classes: Classes = []) {
+  const registeredClasses = (element[REGISTERED_CLASSES] ??= new Set());
+  const tokens = getClassTokens(classes);
+  for (const token of registeredClasses) {
+    if (!tokens.has(token)) {
+      element.classList.remove(token);
+      registeredClasses.delete(token);
+    }
+  }
+  for (const token of tokens) {
+    if (!element.classList.contains(token)) {
+      element.classList.add(token);
+    }
+    registeredClasses.add(token);
+  }
+}
+
+
+// Internal helper to in-place update properties. Properties are compared
+// against the live element, so that for example the `value` of an input is
+// restored after user edits. Properties no longer specified are reset to the
+// default value of a pristine element of the same kind.
+function updateProperties(element: Element, properties: Properties = {}) {
+  const registeredProperties = (element[REGISTERED_PROPERTIES] ??= {});
+  const target = element as unknown as Record<string, unknown>;
+  for (const name of Object.keys(registeredProperties)) {
+    if (!(name in properties)) {
+      const pristine = getPristineElement(element) as unknown as Record<string, unknown>;
+      if (name in pristine) {
+        target[name] = pristine[name];
+      } else {
+        delete target[name];
+      }
+      delete registeredProperties[name];
+    }
+  }
+  for (const [name, value] of Object.entries(properties)) {
+    if (target[name] !== value) {
+      target[name] = value;
+    }
+    registeredProperties[name] = value;
+  }
+}
+
+
+// Internal helper to adopt the existing children in order.
+function hydrateChildren(parent: Element, children: Children = []) {
+  const namespace = getChildNamespace(parent);
+  let node = parent.firstChild;
+  for (const child of expandChildren(parent, children)) {
+    while (node && !(node instanceof Element || node instanceof Text)) {
+      node = node.nextSibling;
+    }
+    if (isRawDOM(child)) {
+      node = hydrateRaw(parent, child, node);
+    } else if (typeof child === "object") {
+      const childNamespace = resolveNamespace(
+        child.tagName,
+        child.namespaceURI,
+        namespace
+      );
+      if (
+        node instanceof Element &&
+        node.namespaceURI === childNamespace &&
+        node.tagName.toLowerCase() === child.tagName.toLowerCase()
+      ) {
+        hydrateElement(node, child);
+        node = node.nextSibling;
+      } else {
+        reportMismatch(`expected <${child.tagName}>`, parent, node);
+        node = replaceNode(parent, createElement(child, namespace), node);
+      }
+    } else if (!child) {
+      // Empty text is not present in the rendered markup.
+      parent.insertBefore(document.createTextNode(child), node);
+    } else if (node instanceof Text) {
+      if (node.data !== child) {
+        if (node.data.startsWith(child)) {
+          // Adjacent text children are merged in the rendered markup.
+          node.splitText(child.length);
+        } else {
+          reportMismatch(`expected text "${child}"`, parent, node);
+          node.data = child;
+        }
+      }
+      node = node.nextSibling;
+    } else {
+      reportMismatch(`expected text "${child}"`, parent, node);
+      node = replaceNode(parent, document.createTextNode(child), node);
+    }
+  }
+  // Remove the remaining nodes not present in the specification.
+  while (node) {
+    const nextSibling = node.nextSibling;
+    if (node instanceof Element || node instanceof Text) {
+      reportMismatch("unexpected node", parent, node);
+      parent.removeChild(node);
+      unmountNode(node);
+    }
+    node = nextSibling;
+  }
+}
+
+// Adopts the existing nodes rendered from raw HTML, if they are equal to the
+// parsed markup, or replaces them otherwise. Returns the node following them.
+function hydrateRaw(parent: Element, child: RawDOM, node: ChildNode | null) {
+  const block = createRawBlock(child);
+  const existing: ChildNode[] = [];
+  for (
+    let current = node;
+    current && existing.length < block.nodes.length;
+    current = current.nextSibling
+  ) {
+    if (current instanceof Element || current instanceof Text) {
+      existing.push(current);
+    }
+  }
+  if (
+    existing.length === block.nodes.length &&
+    existing.every((each, index) => each.isEqualNode(block.nodes[index]))
+  ) {
+    block.nodes = existing;
+    for (const each of existing) {
+      each[REGISTERED_RAW] = block;
+    }
+    return existing.length > 0 ? existing.at(-1)!.nextSibling : node;
+  }
+  reportMismatch("expected raw HTML", parent, node);
+  const nextSibling = existing.length > 0 ? existing.at(-1)!.nextSibling : node;
+  for (const each of existing) {
+    parent.removeChild(each);
+    unmountNode(each);
+  }
+  for (const each of block.nodes) {
+    parent.insertBefore(each, nextSibling);
+  }
+  return nextSibling;
+}
+
+// Replaces the mismatching node, or appends if there is none. Returns the node
+// following the replacement.
+function replaceNode(parent: Element, replacement: Node, node: Node | null) {
+  if (node) {
+    parent.replaceChild(replacement, node);
+    unmountNode(node);
+  } else {
+    parent.appendChild(replacement);
+  }
+  return replacement.nextSibling;
+}
+
+// Reports the attributes, styles and classes of an existing element that do
+// not match the specification.
+function reportAttributeMismatches(
+  element: Element,
+  attributes: Attributes = {},
+  style?: Style,
+  classes?: Classes
+) {
+  const ignored = getStructuredAttributes(style, classes);
+  const names = new Set([
+    ...element.getAttributeNames(),
+    ...Object.keys(attributes),
+  ]);
+  for (const name of names) {
+    if (ignored.includes(name)) continue;
+    const actual = element.getAttribute(name);
+    const expected = attributes[name] ?? null;
+    if (actual !== expected) {
+      reportMismatch(
+        `attribute "${name}" is ${JSON.stringify(actual)}, ` +
+          `expected ${JSON.stringify(expected)}`,
+        element
+      );
+    }
+  }
+  if (style) {
+    const declaration = (element as Element & ElementCSSInlineStyle).style;
+    for (const [name, expected] of getStyleProperties(style)) {
+      const actual = declaration.getPropertyValue(name);
+      if (actual !== expected) {
+        reportMismatch(
+          `style "${name}" is ${JSON.stringify(actual)}, ` +
+            `expected ${JSON.stringify(expected)}`,
+          element
+        );
+      }
+    }
+  }
+  if (classes) {
+    for (const token of getClassTokens(classes)) {
+      if (!element.classList.contains(token)) {
+        reportMismatch(`class "${token}" is missing`, element);
+      }
     }
   }
 }
 
+// Reports a hydration mismatch in development mode.
+function reportMismatch(
+  message: string,
+  parent: Element,
+  node?: Node | null
+) {
+  if (config.development) {
+    config.warn(
+      `Hydration mismatch in <${parent.tagName.toLowerCase()}>: ${message}.`,
+      node ?? parent
+    );
+  }
+}
+
+
+// Internal helper to create the specification of an existing element.
+function snapshotElement(
+  element: Element,
+  parentNamespace: string | undefined
+): VirtualDOM<string> {
+  const tagName = element.localName;
+  const virtual: VirtualDOM<string> = { tagName };
+  const namespace = element.namespaceURI;
+  if (
+    namespace &&
+    namespace !== resolveNamespace(tagName, undefined, parentNamespace)
+  ) {
+    virtual.namespaceURI = namespace;
+  }
+  for (const attribute of element.attributes) {
+    (virtual.attributes ??= {})[attribute.name] = attribute.value;
+  }
+  const listeners: RegisteredListeners = {};
+  for (const registered of [
+    element[REGISTERED_LISTENERS],
+    element[REGISTERED_DELEGATES],
+  ]) {
+    for (const [name, list] of Object.entries(registered ?? {})) {
+      (listeners[name] ??= []).push(...list);
+    }
+  }
+  for (const [name, list] of Object.entries(listeners)) {
+    (virtual.listeners ??= {})[name] = list.length === 1 ? list[0] : list;
+  }
+  for (const name of Object.keys(element[REGISTERED_PROPERTIES] ?? {})) {
+    (virtual.properties ??= {})[name] = (
+      element as unknown as Record<string, unknown>
+    )[name];
+  }
+  const children = snapshotChildren(element, getChildNamespace(element));
+  if (children.length > 0) {
+    virtual.children = children;
+  }
+  return virtual;
+}
+
+// Internal helper to create the specifications of the existing children.
+function snapshotChildren(
+  parent: ParentNode,
+  namespace: string
+): Array<string | VirtualDOM<string>> {
+  const result: Array<string | VirtualDOM<string>> = [];
+  for (const node of parent.childNodes) {
+    if (node instanceof Element) {
+      result.push(snapshotElement(node, namespace));
+    } else if (node instanceof Text) {
+      result.push(node.data);
+    }
+  }
+  return result;
+}
+
 
 // Internal helper to in-place update the children.
-function updateChildren(parent: Element, children: Children = []) {
+function updateChildren(
+  parent: Element | ShadowRoot,
+  children: Children = []
+) {
+  const expanded = expandChildren(parent, children);
+  const { nodes, starts } = reconcileNodes(
+    parent,
+    [...parent.childNodes],
+    expanded,
+    null
+  );
+  // Turn the ranges of the component instances into ranges of nodes.
+  const components = parent[REGISTERED_COMPONENTS];
+  if (components) {
+    components.nodes = nodes;
+    for (const instance of components.instances) {
+      instance.start = starts[instance.start];
+      instance.end = starts[instance.end];
+    }
+  }
+}
+
+// Reconciles the old child nodes with the expanded children, which replace them
+// before `nextSibling`. Returns the new nodes, and the index of the first node
+// of each child.
+function reconcileNodes(
+  parent: Element | ShadowRoot,
+  oldNodes: Node[],
+  expanded: Array<string | VirtualDOM<any> | RawDOM>,
+  nextSibling: Node | null
+): { nodes: Node[]; starts: number[] } {
+  const namespace = getChildNamespace(parent);
+  if (config.development) {
+    reportKeyWarnings(parent, expanded);
+  }
   // Index the old children.
   const elements = new Map<string, Element[]>();
-  const texts = new Map<string, Text>();
-  for (const node of [...parent.childNodes]) {
-    if (node instanceof Element) {
-      let key = node.tagName.toLowerCase();
+  const texts: Text[] = [];
+  const rawBlocks = new Map<string, RawBlock[]>();
+  const oldIndices = new Map<Node, number>();
+  for (const node of oldNodes) {
+    oldIndices.set(node, oldIndices.size);
+    const block = node[REGISTERED_RAW];
+    if (block) {
+      const blockList = getMapList(rawBlocks, block.html);
+      if (!blockList.includes(block)) blockList.push(block);
+    } else if (node instanceof Element) {
+      let key = `${node.namespaceURI}|${node.tagName.toLowerCase()}`;
       if (node.hasAttribute(KEY_ATTRIBUTE)) {
         key += `|${node.getAttribute(KEY_ATTRIBUTE)}`;
       }
       getMapList(elements, key).push(node);
     } else if (node instanceof Text) {
-      texts.set(node.textContent ?? '', node);
+      texts.push(node);
     }
   }
   // Build the list of new children.
   const newNodes: Node[] = [];
-  for (const child of children) {
-    if (typeof child === "object") {
-      let key = child.tagName.toLowerCase();
+  const starts: number[] = [];
+  let textIndex = 0;
+  for (const child of expanded) {
+    starts.push(newNodes.length);
+    if (isRawDOM(child)) {
+      // Reuse the nodes of identical markup, without looking into them.
+      const block =
+        getMapList(rawBlocks, String(child.html)).shift() ??
+        createRawBlock(child);
+      newNodes.push(...block.nodes);
+    } else if (typeof child === "object") {
+      const childNamespace = resolveNamespace(
+        child.tagName,
+        child.namespaceURI,
+        namespace
+      );
+      let key = `${childNamespace}|${child.tagName.toLowerCase()}`;
       if (child.attributes?.[KEY_ATTRIBUTE]) {
         key += `|${child.attributes[KEY_ATTRIBUTE]}`;
       }
-      const element = getMapList(elements, key).shift()
-        ?? createElement(child);
-      newNodes.push(element);
+      // Try reusing an existing element, and recursively update it.
+      const element = getMapList(elements, key).shift();
+      if (element) {
+        updateElement(element, child);
+        newNodes.push(element);
+      } else {
+        newNodes.push(createElement(child, namespace));
+      }
     } else {
-      // Try reusing the text elements.
-      const text = child.toString();
-      const node = texts.get(text);
+      // Reuse the text nodes by position, so that duplicate texts each keep
+      // their own node, and changed texts are updated in place.
+      const node = texts[textIndex++];
       if (node) {
+        if (node.data !== child) {
+          node.data = child;
+          config.instrument?.({ type: "text", node, value: child });
+        }
         newNodes.push(node);
-        texts.delete(text);
       } else {
-        newNodes.push(document.createTextNode(text));
+        newNodes.push(document.createTextNode(child));
       }
     }
   }
+  starts.push(newNodes.length);
   // Remove elements no longer present.
   for (const elementList of elements.values()) {
     for (const element of elementList) {
       parent.removeChild(element);
+      config.instrument?.({ type: "remove", parent, node: element });
+      unmountNode(element);
     }
   }
-  for (const text of texts.values()) {
+  for (const text of texts.slice(textIndex)) {
     parent.removeChild(text);
+    config.instrument?.({ type: "remove", parent, node: text });
+  }
+  for (const blockList of rawBlocks.values()) {
+    for (const block of blockList) {
+      for (const node of block.nodes) {
+        if (node.parentNode !== parent) continue;
+        parent.removeChild(node);
+        config.instrument?.({ type: "remove", parent, node });
+      }
+    }
   }
-  // Insert new nodes and move old ones to the right place.
+  // Insert new nodes and move old ones to the right place. The reused nodes
+  // forming the longest increasing subsequence of their old positions are
+  // already in the right order, only the other nodes need to be moved.
+  const stable = longestIncreasingSubsequence(
+    newNodes.map((node) => oldIndices.get(node) ?? -1)
+  );
   for (let i = newNodes.length - 1; i >= 0; i--) {
     const node = newNodes[i];
-    const nextSibling = newNodes[i + 1] ?? null;
-    if (node.parentNode === parent) {
-      if (node.nextSibling !== nextSibling) {
-        if (parent.moveBefore) {
-          parent.moveBefore(node, nextSibling);
-        } else {
-          parent.insertBefore(node, nextSibling);
+    const next = newNodes[i + 1] ?? nextSibling;
+    if (node.parentNode !== parent) {
+      parent.insertBefore(node, next);
+      config.instrument?.({ type: "create", parent, node });
+    } else if (!stable.has(i) && node.nextSibling !== next) {
+      moveNode(parent, node, next);
+      config.instrument?.({ type: "move", parent, node });
+    }
+  }
+  return { nodes: newNodes, starts };
+}
+
+// Reports duplicate keys among the new children, and keys whose tag changed
+// compared to the old children, which recreates the element.
+function reportKeyWarnings(
+  parent: Element | ShadowRoot,
+  children: Array<string | VirtualDOM<any> | RawDOM>
+) {
+  const oldTagNames = new Map<string, string>();
+  for (const element of parent.children) {
+    const key = element.getAttribute(KEY_ATTRIBUTE);
+    if (key !== null) oldTagNames.set(key, element.localName);
+  }
+  const keys = new Set<string>();
+  for (const child of children) {
+    if (typeof child !== "object" || isRawDOM(child)) continue;
+    const key = child.attributes?.[KEY_ATTRIBUTE];
+    if (!key) continue;
+    const parentName = describeParent(parent);
+    if (keys.has(key)) {
+      config.warn(
+        `Duplicate key "${key}" among the children of ${parentName}.`,
+        parent
+      );
+    }
+    keys.add(key);
+    const oldTagName = oldTagNames.get(key);
+    if (oldTagName && oldTagName !== child.tagName.toLowerCase()) {
+      config.warn(
+        `Key "${key}" changed from <${oldTagName}> to <${child.tagName}> ` +
+          `in ${parentName}, the element is recreated.`,
+        parent
+      );
+    }
+  }
+}
+
+// Parses and sanitizes raw HTML into a new block of nodes.
+function createRawBlock({ html, sanitize }: RawDOM): RawBlock {
+  const fragment = parseHTML(html, { ...config.sanitizer, ...sanitize });
+  const block: RawBlock = {
+    html: String(html),
+    nodes: [...fragment.childNodes],
+  };
+  for (const node of block.nodes) {
+    node[REGISTERED_RAW] = block;
+  }
+  return block;
+}
+
+// Moves a child node before `nextSibling`. Where `moveBefore` is not available,
+// the focus and text selection within the moved node are restored.
+function moveNode(
+  parent: Element | ShadowRoot,
+  node: Node,
+  nextSibling: Node | null
+) {
+  if (parent.moveBefore) {
+    parent.moveBefore(node, nextSibling);
+    return;
+  }
+  const active = node.ownerDocument?.activeElement;
+  if (!active || !node.contains(active)) {
+    parent.insertBefore(node, nextSibling);
+    return;
+  }
+  const { selectionStart, selectionEnd, selectionDirection } =
+    active as Partial<HTMLInputElement>;
+  parent.insertBefore(node, nextSibling);
+  (active as HTMLElement).focus?.({ preventScroll: true });
+  if (typeof selectionStart === "number" && typeof selectionEnd === "number") {
+    (active as HTMLInputElement).setSelectionRange(
+      selectionStart,
+      selectionEnd,
+      selectionDirection ?? undefined
+    );
+  }
+}
+
+// Returns the indices of the longest strictly increasing subsequence among the
+// non-negative values of the sequence, in O(n log n).
+function longestIncreasingSubsequence(sequence: number[]): Set<number> {
+  const predecessors = new Array<number>(sequence.length);
+  const tails: number[] = [];
+  for (let i = 0; i < sequence.length; i++) {
+    const value = sequence[i];
+    if (value < 0) continue;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (sequence[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    predecessors[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
+  const result = new Set<number>();
+  for (
+    let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+    i >= 0;
+    i = predecessors[i]
+  ) {
+    result.add(i);
+  }
+  return result;
+}
+
+// Expands the fragments and components among the children into their children
+// and rendered output respectively. The component instances are stored on the
+// parent, and reused by the next expansion if the component and the key match.
+// Instances are only re-rendered if they were invalidated or their props
+// changed.
+function expandChildren(
+  parent: Element | ShadowRoot,
+  children: Children
+): Array<string | VirtualDOM<any> | RawDOM> {
+  const previous = parent[REGISTERED_COMPONENTS];
+  if (
+    !previous &&
+    children.every(
+      (child) =>
+        typeof child === "string" ||
+        (typeof child === "object" &&
+          child !== null &&
+          !Array.isArray(child) &&
+          !isComponentDOM(child) &&
+          !isFragment(child) &&
+          !isAsyncSource(child))
+    )
+  ) {
+    return children as Array<string | VirtualDOM<any> | RawDOM>;
+  }
+  const expansion: Expansion = {
+    parent,
+    available: new Map(),
+    instances: [],
+    result: [],
+  };
+  for (const instance of previous?.instances ?? []) {
+    getMapList(expansion.available, instance.key).push(instance);
+  }
+  for (const child of children) {
+    expandChild(expansion, child);
+  }
+  unmountAvailable(expansion);
+  if (expansion.instances.length > 0) {
+    parent[REGISTERED_COMPONENTS] = {
+      children,
+      instances: expansion.instances,
+    };
+  } else {
+    delete parent[REGISTERED_COMPONENTS];
+  }
+  return expansion.result;
+}
+
+// Expands a child into the result of an expansion, reusing the available
+// instances. The instances are collected in document order, along with the
+// range of the result they produced.
+function expandChild(
+  expansion: Expansion,
+  child: VirtualChild,
+  owner?: ComponentInstance
+) {
+  const { parent, available, instances, result } = expansion;
+  if (Array.isArray(child)) {
+    for (const each of child) {
+      expandChild(expansion, each, owner);
+    }
+    return;
+  }
+  if (child === null || child === undefined || typeof child === "boolean") {
+    return;
+  }
+  if (typeof child === "number") {
+    result.push(String(child));
+    return;
+  }
+  if (isAsyncSource(child)) {
+    expandChild(expansion, createAsync(child), owner);
+    return;
+  }
+  if (isFragment(child)) {
+    const key = child.attributes?.[KEY_ATTRIBUTE];
+    if (
+      config.development &&
+      key &&
+      child.children?.some(
+        (each) => typeof each === "string" || typeof each === "number"
+      )
+    ) {
+      config.warn(
+        `Key "${key}" has no effect on the text children of a fragment ` +
+          `in ${describeParent(parent)}.`,
+        parent
+      );
+    }
+    for (const fragmentChild of child.children ?? []) {
+      expandChild(expansion, fragmentChild, owner);
+    }
+    return;
+  }
+  if (!isComponentDOM(child)) {
+    result.push(child);
+    return;
+  }
+  const key = getComponentKey(child, owner);
+  let instance = getMapList(available, key).shift();
+  if (!instance) {
+    instance = {
+      component: child.component,
+      key,
+      props: child.props,
+      parent,
+      hooks: [],
+      hookIndex: 0,
+      effects: [],
+      dirty: true,
+      unmounted: false,
+      start: 0,
+      end: 0,
+    };
+  } else if (!shallowEqual(instance.props, child.props)) {
+    instance.props = child.props;
+    instance.dirty = true;
+  }
+  instance.owner = owner;
+  instances.push(instance);
+  if (instance.dirty) {
+    renderInstance(instance);
+  }
+  instance.start = result.length;
+  expandChild(expansion, instance.output!, instance);
+  instance.end = result.length;
+}
+
+// Unmounts the instances that an expansion did not reuse.
+function unmountAvailable({ available }: Expansion) {
+  for (const instanceList of available.values()) {
+    for (const instance of instanceList) {
+      unmountInstance(instance);
+    }
+  }
+}
+
+// Calls the component function of an instance, while tracking its hooks.
+function renderInstance(instance: ComponentInstance) {
+  const previousInstance = currentInstance;
+  currentInstance = instance;
+  instance.hookIndex = 0;
+  instance.dirty = false;
+  try {
+    instance.output = instance.component(instance.props);
+  } finally {
+    currentInstance = previousInstance;
+  }
+}
+
+// Marks a component instance for re-rendering. During a reconciliation the
+// instance is re-rendered once it completes, within a root the re-rendering
+// is scheduled by the root, otherwise it happens right away.
+function invalidateInstance(instance: ComponentInstance) {
+  if (instance.unmounted) return;
+  instance.dirty = true;
+  if (batchDepth > 0) {
+    pendingInstances.add(instance);
+    return;
+  }
+  const root = findRoot(instance.parent);
+  if (root) {
+    root.instances.add(instance);
+    scheduleRoot(root);
+  } else {
+    batch(() => rerenderInstance(instance));
+  }
+}
+
+// Re-renders an invalidated component instance, and reconciles the range of
+// nodes it produced, leaving the nodes of its siblings untouched.
+function rerenderInstance(instance: ComponentInstance) {
+  if (!instance.dirty || instance.unmounted) return;
+  const { parent } = instance;
+  const components = parent[REGISTERED_COMPONENTS];
+  if (!components) return;
+  const index = components.instances.indexOf(instance);
+  const oldNodes = components.nodes?.slice(instance.start, instance.end);
+  const nextSibling = components.nodes?.[instance.end] ?? null;
+  if (
+    index < 0 ||
+    !oldNodes ||
+    ![...oldNodes, nextSibling].every(
+      (node) => !node || node.parentNode === parent
+    )
+  ) {
+    // The rendered nodes are unknown, for example after a hydration.
+    updateChildren(parent, components.children);
+    return;
+  }
+  // The instances rendered by the instance follow it in document order.
+  let end = index + 1;
+  while (
+    end < components.instances.length &&
+    isOwnedBy(components.instances[end], instance)
+  ) {
+    end++;
+  }
+  const expansion: Expansion = {
+    parent,
+    available: new Map(),
+    instances: [],
+    result: [],
+  };
+  for (const descendant of components.instances.slice(index + 1, end)) {
+    getMapList(expansion.available, descendant.key).push(descendant);
+  }
+  renderInstance(instance);
+  expandChild(expansion, instance.output!, instance);
+  unmountAvailable(expansion);
+  const { nodes, starts } = reconcileNodes(
+    parent,
+    oldNodes,
+    expansion.result,
+    nextSibling
+  );
+  // Update the ranges of the instances, which shift after the new nodes.
+  for (const descendant of expansion.instances) {
+    descendant.start = instance.start + starts[descendant.start];
+    descendant.end = instance.start + starts[descendant.end];
+  }
+  const shift = nodes.length - oldNodes.length;
+  for (const other of components.instances.slice(end)) {
+    other.start += shift;
+    other.end += shift;
+  }
+  instance.end += shift;
+  for (let owner = instance.owner; owner; owner = owner.owner) {
+    owner.end += shift;
+  }
+  components.nodes!.splice(instance.start, oldNodes.length, ...nodes);
+  components.instances.splice(
+    index + 1,
+    end - index - 1,
+    ...expansion.instances
+  );
+}
+
+// Tests if an instance was rendered by another one, directly or not.
+function isOwnedBy(instance: ComponentInstance, owner: ComponentInstance) {
+  for (let each = instance.owner; each; each = each.owner) {
+    if (each === owner) return true;
+  }
+  return false;
+}
+
+// Releases a component instance that is no longer rendered.
+function unmountInstance(instance: ComponentInstance) {
+  instance.unmounted = true;
+  pendingInstances.delete(instance);
+  for (const effect of instance.effects) {
+    effect.cleanup?.();
+    effect.cleanup = undefined;
+  }
+}
+
+// Releases all component instances within a removed node, and queues the
+// unmount hooks of its elements in document order.
+function unmountNode(node: Node) {
+  const lifecycle = node[REGISTERED_LIFECYCLE];
+  if (lifecycle) {
+    delete node[REGISTERED_LIFECYCLE];
+    pendingLifecycles.push(() => {
+      assignRef(lifecycle.ref, null);
+      lifecycle.onUnmount?.(node as Element);
+    });
+  }
+  const components = node[REGISTERED_COMPONENTS];
+  if (components) {
+    for (const instance of components.instances) {
+      unmountInstance(instance);
+    }
+    delete node[REGISTERED_COMPONENTS];
+  }
+  for (const child of node.childNodes) {
+    unmountNode(child);
+  }
+}
+
+// Releases a node that is removed from a root, including its listeners.
+function releaseNode(node: Node) {
+  unmountNode(node);
+  if (node instanceof Element) {
+    for (const element of [node, ...node.querySelectorAll("*")]) {
+      updateListeners(element, {});
+    }
+  }
+}
+
+// Returns the closest suspense boundary of a node.
+function findBoundary(node: Node | null): Boundary | undefined {
+  for (; node; node = node.parentNode) {
+    const boundary = node[REGISTERED_BOUNDARY];
+    if (boundary) return boundary;
+  }
+  return undefined;
+}
+
+// Returns the root state of the closest root container.
+function findRoot(node: Node | null): RootState | undefined {
+  for (; node; node = node.parentNode) {
+    const root = node[REGISTERED_ROOT];
+    if (root) return root;
+  }
+  return undefined;
+}
+
+// Schedules the roots to be flushed, at most once per scheduler.
+const scheduledRoots = new Set<RootState>();
+const scheduledFlushes = new Set<Scheduler>();
+function scheduleRoot(root: RootState) {
+  scheduledRoots.add(root);
+  if (scheduledFlushes.has(root.scheduler)) return;
+  scheduledFlushes.add(root.scheduler);
+  const flush = () => {
+    scheduledFlushes.delete(root.scheduler);
+    flushRoots(root.scheduler);
+  };
+  if (root.scheduler === "animationFrame") {
+    requestAnimationFrame(flush);
+  } else {
+    queueMicrotask(flush);
+  }
+}
+
+// Reconciles the scheduled roots, optionally only those of a scheduler.
+let currentRoot: RootState | undefined;
+function flushRoots(scheduler?: Scheduler) {
+  batch(() => {
+    for (const root of scheduledRoots) {
+      if (scheduler && root.scheduler !== scheduler) continue;
+      scheduledRoots.delete(root);
+      const previousRoot = currentRoot;
+      currentRoot = root;
+      try {
+        if (root.renderPending) {
+          root.renderPending = false;
+          updateChildren(root.container, root.children);
+        }
+        for (const instance of root.instances) {
+          rerenderInstance(instance);
         }
+      } finally {
+        currentRoot = previousRoot;
       }
-    } else {
-      parent.insertBefore(node, nextSibling);
+      root.instances.clear();
+    }
+  });
+}
+
+// Runs the callback as part of a reconciliation. Once the outermost
+// reconciliation completes, invalidated component instances are re-rendered
+// and pending effects are run.
+let batchDepth = 0;
+const pendingInstances = new Set<ComponentInstance>();
+const pendingLifecycles: Array<() => void> = [];
+const pendingEffects: Array<() => void> = [];
+function batch<T>(callback: () => T): T {
+  batchDepth++;
+  try {
+    return callback();
+  } finally {
+    if (--batchDepth === 0) {
+      flushPending();
     }
   }
 }
 
+// Re-renders invalidated component instances, and then runs pending ref
+// assignments and lifecycle hooks, followed by the pending effects.
+function flushPending() {
+  batchDepth++;
+  try {
+    while (
+      pendingInstances.size > 0 ||
+      pendingLifecycles.length > 0 ||
+      pendingEffects.length > 0
+    ) {
+      for (const instance of pendingInstances) {
+        pendingInstances.delete(instance);
+        rerenderInstance(instance);
+      }
+      for (const lifecycle of pendingLifecycles.splice(0)) {
+        lifecycle();
+      }
+      for (const effect of pendingEffects.splice(0)) {
+        effect();
+      }
+    }
+  } finally {
+    batchDepth--;
+  }
+}
+
+// Returns the component instance currently rendering.
+let currentInstance: ComponentInstance | undefined;
+function getCurrentInstance(): ComponentInstance {
+  if (!currentInstance) {
+    throw new Error("Hooks can only be called while rendering a component.");
+  }
+  return currentInstance;
+}
+
+// Returns and possibly creates the next hook of the rendering instance.
+function getHook<H>(create: () => H): H {
+  const instance = getCurrentInstance();
+  const index = instance.hookIndex++;
+  if (index >= instance.hooks.length) {
+    instance.hooks.push(create());
+  }
+  return instance.hooks[index] as H;
+}
+
+// Tests if the dependencies of a hook changed.
+function dependenciesChanged(previous?: unknown[], next?: unknown[]): boolean {
+  if (!previous || !next || previous.length !== next.length) return true;
+  return previous.some((value, index) => !Object.is(value, next[index]));
+}
+
+// Tests if a child is a component specification.
+function isComponentDOM(child: VirtualChild): child is ComponentDOM<any> {
+  return typeof child === "object" && child !== null && "component" in child;
+}
+
+// Tests if a child is a raw HTML specification.
+function isRawDOM(child: VirtualChild): child is RawDOM {
+  return typeof child === "object" && child !== null && "html" in child;
+}
+
+// Tests if a child is a promise or a loader function.
+function isAsyncSource(child: VirtualChild): child is AsyncSource {
+  return (
+    typeof child === "function" ||
+    (typeof child === "object" &&
+      child !== null &&
+      typeof (child as PromiseLike<unknown>).then === "function")
+  );
+}
+
+// Tests if a child is a fragment specification.
+function isFragment(child: VirtualChild): child is VirtualDOM<typeof Fragment> {
+  return (
+    typeof child === "object" &&
+    child !== null &&
+    "tagName" in child &&
+    child.tagName === Fragment
+  );
+}
+
+// Returns the key identifying a component instance among its siblings.
+const componentIds = new WeakMap<Component, number>();
+let nextComponentId = 0;
+function getComponentKey(
+  { component, props }: ComponentDOM<any>,
+  owner?: ComponentInstance
+): string {
+  let id = componentIds.get(component);
+  if (id === undefined) {
+    componentIds.set(component, (id = nextComponentId++));
+  }
+  let key = `${id}`;
+  if (props?.[KEY_ATTRIBUTE] !== undefined) {
+    key += `|${props[KEY_ATTRIBUTE]}`;
+  }
+  return owner ? `${owner.key}/${key}` : key;
+}
+
+// Tests if two props objects have the same keys and values.
+function shallowEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => Object.hasOwn(b, key) && Object.is(a[key], b[key]));
+}
+
+// Describes a parent in warnings.
+function describeParent(parent: Element | ShadowRoot): string {
+  return parent instanceof Element ? `<${parent.localName}>` : "a shadow root";
+}
+
+// Returns the namespace the children of an element inherit.
+function getChildNamespace(element: Element | ShadowRoot): string {
+  if (!(element instanceof Element)) return HTML_NAMESPACE;
+  if (
+    element.namespaceURI === SVG_NAMESPACE &&
+    element.localName === "foreignObject"
+  ) {
+    return HTML_NAMESPACE;
+  }
+  return element.namespaceURI ?? HTML_NAMESPACE;
+}
+
+// Sets an attribute, taking care of namespaced attributes like `xlink:href`.
+function setAttribute(element: Element, name: string, value: string) {
+  const index = name.indexOf(":");
+  const namespace =
+    name === "xmlns"
+      ? XMLNS_NAMESPACE
+      : index > 0
+        ? ATTRIBUTE_NAMESPACES[name.slice(0, index)]
+        : undefined;
+  if (namespace) {
+    element.setAttributeNS(namespace, name, value);
+  } else {
+    element.setAttribute(name, value);
+  }
+}
+
+// Converts a camel-case style property name to kebab-case.
+function toStylePropertyName(name: string): string {
+  if (name.startsWith("--") || name.includes("-")) return name;
+  return name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+// Returns a cached element of the same kind that has never been modified.
+const pristineElements = new Map<string, Element>();
+function getPristineElement(element: Element): Element {
+  const key = `${element.namespaceURI}|${element.localName}`;
+  let pristine = pristineElements.get(key);
+  if (!pristine) {
+    pristine = document.createElementNS(element.namespaceURI, element.localName);
+    pristineElements.set(key, pristine);
+  }
+  return pristine;
+}
+
 // Returns and possibly creates a new list entry in a map.
 function getMapList<K, V>(map: Map<K, V[]>, key: K): V[] {
   const values = map.get(key);
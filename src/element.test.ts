@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { createVirtual } from "./dom";
+import {
+  WebFoundationElement,
+  booleanAttribute,
+  css,
+  numberAttribute,
+  registerComponents,
+} from "./element";
+
+class GreetingElement extends WebFoundationElement {
+  static properties = {
+    name: { value: "World" },
+    count: { type: numberAttribute, value: 1, reflect: true },
+    loud: { type: booleanAttribute, value: false },
+    note: { attribute: false },
+  };
+  static styles = [css`:host { display: block; }`];
+
+  declare name: string;
+  declare count: number;
+  declare loud: boolean;
+  declare note: string | undefined;
+
+  renders = 0;
+
+  render() {
+    this.renders++;
+    const text = `Hello ${this.name}`.repeat(this.count);
+    return createVirtual(
+      "p",
+      { class: { loud: this.loud } },
+      text,
+      this.note ? createVirtual("small", {}, this.note) : null
+    );
+  }
+}
+customElements.define("test-greeting", GreetingElement);
+
+function createGreeting(attributes = ""): GreetingElement {
+  document.body.insertAdjacentHTML(
+    "beforeend",
+    `<test-greeting ${attributes}></test-greeting>`
+  );
+  return document.body.lastElementChild as GreetingElement;
+}
+
+const tick = () => new Promise((resolve) => queueMicrotask(() => resolve(0)));
+
+describe("WebFoundationElement", () => {
+  afterEach(() => {
+    document.body.replaceChildren();
+  });
+  test("observed attributes", () => {
+    expect(GreetingElement.observedAttributes).toEqual([
+      "name",
+      "count",
+      "loud",
+    ]);
+  });
+  test("render on connect", () => {
+    const element = createGreeting();
+    expect(element.shadowRoot!.innerHTML).toBe("<p>Hello World</p>");
+  });
+  test("initial attributes", () => {
+    const element = createGreeting('name="You" count="2" loud');
+    expect(element.name).toBe("You");
+    expect(element.count).toBe(2);
+    expect(element.loud).toBe(true);
+    expect(element.shadowRoot!.innerHTML).toBe(
+      '<p class="loud">Hello YouHello You</p>'
+    );
+  });
+  test("batch attribute changes", async () => {
+    const element = createGreeting();
+    const renders = element.renders;
+    element.setAttribute("name", "You");
+    element.setAttribute("count", "3");
+    expect(element.renders).toBe(renders);
+    await tick();
+    expect(element.renders).toBe(renders + 1);
+    expect(element.shadowRoot!.innerHTML).toBe(
+      "<p>Hello YouHello YouHello You</p>"
+    );
+  });
+  test("remove attribute", async () => {
+    const element = createGreeting('name="You" loud');
+    element.removeAttribute("name");
+    element.removeAttribute("loud");
+    expect(element.name).toBe("World");
+    expect(element.loud).toBe(false);
+    await tick();
+    const paragraph = element.shadowRoot!.querySelector("p")!;
+    expect(paragraph.className).toBe("");
+    expect(paragraph.textContent).toBe("Hello World");
+  });
+  test("set property", async () => {
+    const element = createGreeting();
+    element.note = "Note";
+    expect(element.hasAttribute("note")).toBe(false);
+    await tick();
+    expect(element.shadowRoot!.innerHTML).toBe(
+      "<p>Hello World<small>Note</small></p>"
+    );
+  });
+  test("reflect property", () => {
+    const element = createGreeting();
+    element.count = 2;
+    expect(element.getAttribute("count")).toBe("2");
+    element.name = "You";
+    expect(element.hasAttribute("name")).toBe(false);
+  });
+  test("property set before upgrade", () => {
+    class LateElement extends WebFoundationElement {
+      static properties = { label: {} };
+      declare label: string;
+      render() {
+        return this.label;
+      }
+    }
+    const element = document.createElement("test-late") as LateElement;
+    element.label = "Early";
+    document.body.append(element);
+    customElements.define("test-late", LateElement);
+    expect(element.shadowRoot!.innerHTML).toBe("Early");
+  });
+  test("skip unchanged property", async () => {
+    const element = createGreeting();
+    const renders = element.renders;
+    element.name = "World";
+    await tick();
+    expect(element.renders).toBe(renders);
+  });
+  test("skip render while disconnected", async () => {
+    const element = document.createElement("test-greeting") as GreetingElement;
+    const render = vi.spyOn(element, "render");
+    element.name = "You";
+    await tick();
+    expect(render).not.toHaveBeenCalled();
+  });
+  test("shared stylesheets", () => {
+    const first = createGreeting();
+    const second = createGreeting();
+    expect(first.shadowRoot!.adoptedStyleSheets).toEqual(
+      GreetingElement.styles
+    );
+    expect(second.shadowRoot!.adoptedStyleSheets[0]).toBe(
+      first.shadowRoot!.adoptedStyleSheets[0]
+    );
+  });
+});
+
+describe("registerComponents", () => {
+  class BadgeElement extends WebFoundationElement {
+    render() {
+      return "Badge";
+    }
+  }
+
+  test("define prefixed tags", async () => {
+    await registerComponents({
+      prefix: "one",
+      components: { badge: BadgeElement },
+    });
+    expect(document.createElement("one-badge")).toBeInstanceOf(BadgeElement);
+  });
+  test("skip defined tags", async () => {
+    const components = { badge: BadgeElement };
+    await registerComponents({ prefix: "two", components });
+    const defined = customElements.get("two-badge");
+    await registerComponents({ prefix: "two", components });
+    expect(customElements.get("two-badge")).toBe(defined);
+  });
+  test("define under several prefixes", async () => {
+    const components = { badge: BadgeElement };
+    await registerComponents({ prefix: "three", components });
+    await registerComponents({ prefix: "four", components });
+    expect(customElements.get("three-badge")).toBeDefined();
+    expect(customElements.get("four-badge")).toBeDefined();
+    expect(customElements.get("three-badge")).not.toBe(
+      customElements.get("four-badge")
+    );
+  });
+  test("define in registry", async () => {
+    const registry = {
+      definitions: new Map<string, CustomElementConstructor>(),
+      get(name: string) {
+        return this.definitions.get(name);
+      },
+      define(name: string, constructor: CustomElementConstructor) {
+        this.definitions.set(name, constructor);
+      },
+      whenDefined: async (name: string) => registry.definitions.get(name)!,
+    };
+    await registerComponents({
+      registry: registry as unknown as CustomElementRegistry,
+      components: { badge: BadgeElement },
+    });
+    expect([...registry.definitions.keys()]).toEqual(["wf-badge"]);
+    expect(customElements.get("wf-badge")).toBeUndefined();
+  });
+});
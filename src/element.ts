@@ -0,0 +1,303 @@
+import { type VirtualChild, updateElement } from "./dom.js";
+
+/** Converts the value of an attribute to the value of a property, and back. */
+export interface AttributeConverter<T> {
+  /** Converts the attribute value, when the attribute is present. */
+  fromAttribute(value: string): T;
+  /** Converts the property value, `null` removes the attribute. */
+  toAttribute(value: T): string | null;
+}
+
+/** Declaration of a reactive property of a [WebFoundationElement]. */
+export interface PropertyDeclaration<T = unknown> {
+  /** Converts the attribute value, `stringAttribute` by default. */
+  type?: AttributeConverter<T>;
+  /**
+   * Name of the attribute setting the property, the property name in
+   * lowercase by default or if `true`, or `false` for a property without
+   * attribute.
+   */
+  attribute?: string | boolean;
+  /** Value of the property while it is not set, or its attribute absent. */
+  value?: T;
+  /** Reflects the property to its attribute whenever it is set. */
+  reflect?: boolean;
+}
+
+/** Converter of attributes holding a string. */
+export const stringAttribute: AttributeConverter<string | null> = {
+  fromAttribute: (value) => value,
+  toAttribute: (value) => value,
+};
+
+/** Converter of attributes holding a number, `NaN` removes the attribute. */
+export const numberAttribute: AttributeConverter<number | null> = {
+  fromAttribute: (value) => Number(value),
+  toAttribute: (value) =>
+    value === null || Number.isNaN(value) ? null : String(value),
+};
+
+/** Converter of boolean attributes, which are true when present. */
+export const booleanAttribute: AttributeConverter<boolean> = {
+  fromAttribute: () => true,
+  toAttribute: (value) => (value ? "" : null),
+};
+
+// Stylesheets loaded by URL, shared among all the elements adopting them.
+const loadedStyleSheets = new Map<string, CSSStyleSheet>();
+
+/**
+ * Returns a constructable stylesheet with the CSS at `url`, that is loaded
+ * once and shared by all the shadow roots adopting it. The stylesheet is
+ * returned right away and filled once loaded. Constructable stylesheets
+ * ignore `@import` rules, so adopt imported stylesheets separately.
+ *
+ * @example
+ * static styles = [loadStyleSheet(import.meta.resolve("./tile.css"))];
+ */
+export function loadStyleSheet(url: string | URL): CSSStyleSheet {
+  const href = String(url);
+  let sheet = loadedStyleSheets.get(href);
+  if (!sheet) {
+    const created = new CSSStyleSheet();
+    loadedStyleSheets.set(href, created);
+    fetch(href)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load the stylesheet ${href}.`);
+        }
+        return response.text();
+      })
+      .then((text) => created.replace(text))
+      .catch(reportError);
+    sheet = created;
+  }
+  return sheet;
+}
+
+/**
+ * Tagged template literal creating a constructable stylesheet from CSS.
+ *
+ * @example
+ * static styles = [css`:host { display: block; }`];
+ */
+export function css(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): CSSStyleSheet {
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(String.raw(strings, ...values));
+  return sheet;
+}
+
+/**
+ * Base class of custom elements rendering their shadow root with the virtual
+ * DOM. Subclasses declare their reactive `properties`, which are set from
+ * their attributes and re-render the element when changed, and return the
+ * children of the shadow root from `render()`. Changes are batched, so that
+ * the element is re-rendered at most once per microtask. The `styles` are
+ * adopted by the shadow root, and shared among all instances.
+ *
+ * @example
+ * class GreetingElement extends WebFoundationElement {
+ *   static properties = {
+ *     name: { value: "World" },
+ *     count: { type: numberAttribute, value: 1 },
+ *   };
+ *   static styles = [css`:host { display: block; }`];
+ *
+ *   declare name: string;
+ *   declare count: number;
+ *
+ *   render() {
+ *     return createVirtual("p", {}, `Hello ${this.name}`.repeat(this.count));
+ *   }
+ * }
+ */
+export abstract class WebFoundationElement extends HTMLElement {
+  /** Declarations of the reactive properties, by property name. */
+  static properties: Record<string, PropertyDeclaration<any>> = {};
+  /** Stylesheets adopted by the shadow root. */
+  static styles: CSSStyleSheet[] = [];
+
+  // Properties by attribute name, computed when the class is defined.
+  private static attributeProperties?: Map<string, string>;
+
+  /** Returns the attributes of the declared properties. */
+  static get observedAttributes(): string[] {
+    return [...this.finalize().keys()];
+  }
+
+  // Defines the accessors of the declared properties on the prototype, once
+  // per class, and returns the properties by attribute name.
+  private static finalize(): Map<string, string> {
+    if (Object.hasOwn(this, "attributeProperties")) {
+      return this.attributeProperties!;
+    }
+    const attributes = new Map<string, string>();
+    for (const [name, declaration] of Object.entries(this.properties)) {
+      const attribute = getAttributeName(name, declaration);
+      if (attribute) attributes.set(attribute, name);
+      Object.defineProperty(this.prototype, name, {
+        configurable: true,
+        enumerable: true,
+        get(this: WebFoundationElement) {
+          return this.values.has(name)
+            ? this.values.get(name)
+            : declaration.value;
+        },
+        set(this: WebFoundationElement, value: unknown) {
+          this.setProperty(name, value);
+        },
+      });
+    }
+    this.attributeProperties = attributes;
+    return attributes;
+  }
+
+  /** The shadow root, rendered by `render()`. */
+  protected readonly root: ShadowRoot;
+
+  private readonly values = new Map<string, unknown>();
+  private reflecting = false;
+  private updatePending = false;
+
+  constructor() {
+    super();
+    const constructor = this.constructor as typeof WebFoundationElement;
+    constructor.finalize();
+    this.root = this.attachShadow({ mode: "open" });
+    this.root.adoptedStyleSheets = [...constructor.styles];
+    // Properties set before the element was upgraded shadow the accessors.
+    for (const name of Object.keys(constructor.properties)) {
+      if (Object.hasOwn(this, name)) {
+        const value = (this as Record<string, unknown>)[name];
+        delete (this as Record<string, unknown>)[name];
+        this.setProperty(name, value);
+      }
+    }
+  }
+
+  /** Returns the children of the shadow root. */
+  protected abstract render(): VirtualChild;
+
+  /** Renders the element right away, once it is connected. */
+  connectedCallback() {
+    this.update();
+  }
+
+  /** Sets the property of a changed attribute. */
+  attributeChangedCallback(
+    attribute: string,
+    oldValue: string | null,
+    newValue: string | null
+  ) {
+    if (this.reflecting || oldValue === newValue) return;
+    const constructor = this.constructor as typeof WebFoundationElement;
+    const name = constructor.finalize().get(attribute);
+    if (!name) return;
+    const type = constructor.properties[name].type ?? stringAttribute;
+    if (newValue === null) {
+      if (!this.values.has(name)) return;
+      this.values.delete(name);
+    } else {
+      this.values.set(name, type.fromAttribute(newValue));
+    }
+    this.requestUpdate();
+  }
+
+  /** Schedules the element to be re-rendered, at most once per microtask. */
+  requestUpdate() {
+    if (this.updatePending) return;
+    this.updatePending = true;
+    queueMicrotask(() => {
+      if (this.updatePending) this.update();
+    });
+  }
+
+  /** Renders the element right away, if it is connected. */
+  update() {
+    this.updatePending = false;
+    if (!this.isConnected) return;
+    updateElement(this.root, { children: [this.render()] });
+  }
+
+  // Sets a property, reflects it to its attribute if declared, and schedules
+  // the element to be re-rendered.
+  private setProperty(name: string, value: unknown) {
+    const constructor = this.constructor as typeof WebFoundationElement;
+    const declaration = constructor.properties[name];
+    const previous = this.values.has(name)
+      ? this.values.get(name)
+      : declaration.value;
+    this.values.set(name, value);
+    if (Object.is(previous, value)) return;
+    const attribute = getAttributeName(name, declaration);
+    if (declaration.reflect && attribute) {
+      const type = declaration.type ?? stringAttribute;
+      const attributeValue =
+        value === undefined ? null : type.toAttribute(value);
+      this.reflecting = true;
+      try {
+        if (attributeValue === null) {
+          this.removeAttribute(attribute);
+        } else {
+          this.setAttribute(attribute, attributeValue);
+        }
+      } finally {
+        this.reflecting = false;
+      }
+    }
+    this.requestUpdate();
+  }
+}
+
+// Returns the attribute name of a declared property, if it has one.
+function getAttributeName(
+  name: string,
+  { attribute }: PropertyDeclaration<any>
+): string | undefined {
+  if (attribute === false) return undefined;
+  return typeof attribute === "string" ? attribute : name.toLowerCase();
+}
+
+/** Options of the [registerComponents] function. */
+export interface RegisterOptions {
+  /** Prefix of the tag names, `wf` by default. */
+  prefix?: string;
+  /** Registry of the elements, the global `customElements` by default. */
+  registry?: CustomElementRegistry;
+  /** Classes of the custom elements, by tag name without prefix. */
+  components: Record<string, CustomElementConstructor>;
+}
+
+/**
+ * Defines custom elements under prefixed tag names, such as `wf-tile`. Tags
+ * already defined in the registry are skipped, so that loading a module twice
+ * does not throw. Every tag is defined with its own subclass, so that the same
+ * components can be defined under several prefixes and in several registries,
+ * for example two versions within micro-frontends, or a scoped registry of a
+ * shadow root. Resolves once all the tags are defined.
+ *
+ * @example
+ * await registerComponents({
+ *   prefix: "shop",
+ *   components: { carousel: CarouselComponent, tile: TileComponent },
+ * });
+ */
+export function registerComponents({
+  prefix = "wf",
+  registry = customElements,
+  components,
+}: RegisterOptions): Promise<void> {
+  const tagNames = Object.entries(components).map(([name, component]) => {
+    const tagName = `${prefix}-${name}`;
+    if (!registry.get(tagName)) {
+      registry.define(tagName, class extends component {});
+    }
+    return tagName;
+  });
+  return Promise.all(
+    tagNames.map((tagName) => registry.whenDefined(tagName))
+  ).then(() => undefined);
+}
@@ -0,0 +1,174 @@
+import { describe, expect, test } from "vitest";
+import { createElement, createVirtual, Fragment, useState, type VirtualDOM } from "./dom";
+import { html } from "./html";
+
+const handler: EventListener = () => 1;
+
+describe("html", () => {
+  test("as simple as it gets", () => {
+    expect(html`<div></div>`).toEqual({ tagName: "div" });
+  });
+  test("with static attributes", () => {
+    expect(html`<p class="foo" id='bar' title=zork hidden></p>`).toEqual({
+      tagName: "p",
+      attributes: { class: "foo", id: "bar", title: "zork", hidden: "" },
+    });
+  });
+  test("with interpolated attributes", () => {
+    const id = "bar";
+    expect(html`<p id=${id} class="a ${"b"} c" disabled=${false}></p>`).toEqual({
+      tagName: "p",
+      attributes: { id: "bar", class: "a b c" },
+    });
+  });
+  test("with listeners", () => {
+    expect(html`<button @click=${handler} onmouseenter=${handler}></button>`).toEqual({
+      tagName: "button",
+      listeners: {
+        click: { listener: handler },
+        mouseenter: { listener: handler },
+      },
+    });
+  });
+  test("with properties", () => {
+    expect(html`<input .value=${"foo"} />`).toEqual({
+      tagName: "input",
+      properties: { value: "foo" },
+    });
+  });
+  test("with spread props", () => {
+    expect(html`<p ...${{ id: "foo", title: "bar" }}></p>`).toEqual({
+      tagName: "p",
+      attributes: { id: "foo", title: "bar" },
+    });
+  });
+  test("with text children", () => {
+    expect(html`<p>Hello ${"World"}!</p>`).toEqual({
+      tagName: "p",
+      children: ["Hello ", "World", "!"],
+    });
+  });
+  test("with flattened children", () => {
+    const items = ["a", "b"];
+    expect(html`<ul>${items.map((item) => html`<li>${item}</li>`)}${null}${false}${1}</ul>`).toEqual({
+      tagName: "ul",
+      children: [
+        { tagName: "li", children: ["a"] },
+        { tagName: "li", children: ["b"] },
+        "1",
+      ],
+    });
+  });
+  test("with asynchronous children", () => {
+    const promise = Promise.resolve("a");
+    const load = () => Promise.resolve("b");
+    expect(html`<div>${promise}${load}</div>`).toEqual({
+      tagName: "div",
+      children: [promise, load],
+    });
+    expect(html`${promise}`).toEqual({
+      tagName: Fragment,
+      children: [promise],
+    });
+  });
+  test("with nested elements and whitespace", () => {
+    expect(html`
+      <div>
+        <h1>Title</h1>
+        <p><b>bold</b> <i>italic</i></p>
+      </div>
+    `).toEqual({
+      tagName: "div",
+      children: [
+        { tagName: "h1", children: ["Title"] },
+        {
+          tagName: "p",
+          children: [
+            { tagName: "b", children: ["bold"] },
+            " ",
+            { tagName: "i", children: ["italic"] },
+          ],
+        },
+      ],
+    });
+  });
+  test("with void and self-closing elements", () => {
+    expect(html`<p>a<br>b<span />c</p>`).toEqual({
+      tagName: "p",
+      children: ["a", { tagName: "br" }, "b", { tagName: "span" }, "c"],
+    });
+  });
+  test("with entities and comments", () => {
+    expect(html`<p title="&quot;">&lt;a&gt; &amp; <!-- comment -->b</p>`).toEqual({
+      tagName: "p",
+      attributes: { title: '"' },
+      children: ["<a> & ", "b"],
+    });
+  });
+  test("with invalid character references", () => {
+    expect(html`<p>&#99999999;&#x0;&#xD800;</p>`).toEqual({
+      tagName: "p",
+      children: ["\uFFFD\uFFFD\uFFFD"],
+    });
+  });
+  test("with values in comments", () => {
+    expect(html`<div><!-- ${"a"} --><p>${"b"}</p></div>`).toEqual({
+      tagName: "div",
+      children: [{ tagName: "p", children: ["b"] }],
+    });
+  });
+  test("with multiple roots", () => {
+    expect(html`<dt>a</dt><dd>b</dd>`).toEqual({
+      tagName: Fragment,
+      children: [
+        { tagName: "dt", children: ["a"] },
+        { tagName: "dd", children: ["b"] },
+      ],
+    });
+  });
+  test("with components", () => {
+    const Greeting = ({ name, children }: { name: string; children?: unknown[] }) =>
+      html`<p>Hello ${name}${children}</p>`;
+    expect(html`<${Greeting} name="World">!<//>`).toEqual({
+      component: Greeting,
+      props: { name: "World", children: ["!"] },
+    });
+    expect(html`<${Greeting} name="World" />`).toEqual({
+      component: Greeting,
+      props: { name: "World" },
+    });
+  });
+  test("with stateful components", () => {
+    const Counter = () => {
+      const [count, setCount] = useState(0);
+      return html`<button @click=${() => setCount(count + 1)}>${count}</button>`;
+    };
+    const element = createElement(html`<div><${Counter} /></div>` as VirtualDOM<"div">);
+    (element.firstChild as HTMLButtonElement).click();
+    expect(element.outerHTML).toEqual("<div><button>1</button></div>");
+  });
+  test("is compatible with createVirtual", () => {
+    const title = "Title";
+    expect(html`<div id="main"><h1>${title}</h1></div>`).toEqual(
+      createVirtual("div", { id: "main" }, createVirtual("h1", {}, title))
+    );
+  });
+  test("parses once per call site", () => {
+    const render = (value: string) => html`<p>${value}</p>`;
+    expect(render("a")).toEqual({ tagName: "p", children: ["a"] });
+    expect(render("b")).toEqual({ tagName: "p", children: ["b"] });
+  });
+  test("with malformed markup", () => {
+    expect(() => html`<div>`).toThrowError(/Unclosed <div>/);
+    expect(() => html`<div></span>`).toThrowError(
+      /Expected closing <\/div>, but found <\/span>/
+    );
+    expect(() => html`</div>`).toThrowError(/Unexpected closing <\/div>/);
+    expect(() => html`<p title="foo></p>`).toThrowError(
+      /Unterminated value of attribute "title"/
+    );
+    expect(() => html`<p`).toThrowError(/Unterminated <p>/);
+    expect(() => html`< p></p>`).toThrowError(/Expected a tag name/);
+    expect(() => html`<!-- comment`).toThrowError(/Unterminated comment/);
+  });
+});
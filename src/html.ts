@@ -0,0 +1,391 @@
+import {
+  type Component,
+  type ComponentDOM,
+  type VirtualChild,
+  type VirtualDOM,
+  createVirtual,
+  Fragment,
+  PROPERTY_PREFIX,
+} from "./dom.js";
+
+// Placeholder of the interpolated values in the joined template strings.
+const HOLE = "\uE000";
+
+// HTML elements that have no closing tag and no children.
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Types of the parsed template, referring to interpolated values by index.
+type TemplateValue = Array<string | number>;
+type TemplateAttribute =
+  | { name: string; value: TemplateValue | true }
+  | { spread: number };
+type TemplateNode = string | number | TemplateElement;
+interface TemplateElement {
+  tagName: string | number;
+  attributes: TemplateAttribute[];
+  children: TemplateNode[];
+}
+
+// Parsed templates by call site.
+const templates = new WeakMap<TemplateStringsArray, TemplateNode[]>();
+
+/**
+ * Tagged template literal to build `VirtualDOM` specifications from markup,
+ * without a build step.
+ *
+ * Interpolated values can be used as attribute values (in full or as part of a
+ * quoted value), as listeners (`@click=${fn}` or `onclick=${fn}`), as
+ * properties (`.value=${value}`), as spread props (`...${props}`), as
+ * component tags (`<${Component}>...<//>`), and as children (text, numbers,
+ * `VirtualDOM` nodes, promises and loader functions of asynchronous children,
+ * and nested arrays thereof). The markup is parsed once per call site.
+ * Templates with multiple root nodes result in a `Fragment`.
+ *
+ * @example
+ * const view = html`
+ *   <ul class="list">
+ *     ${items.map((item) => html`<li key=${item.id}>${item.name}</li>`)}
+ *   </ul>
+ *   <button @click=${() => add()} disabled=${items.length > 9}>Add</button>
+ * `;
+ */
+export function html(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): VirtualDOM<any> | ComponentDOM<any> {
+  let nodes = templates.get(strings);
+  if (!nodes) {
+    nodes = new TemplateParser(strings.join(HOLE)).parse();
+    templates.set(strings, nodes);
+  }
+  const children = instantiateNodes(nodes, values);
+  const [child] = children;
+  if (
+    children.length === 1 &&
+    typeof child === "object" &&
+    child !== null &&
+    ("tagName" in child || "component" in child)
+  ) {
+    return child;
+  }
+  return createVirtual(Fragment, {}, ...children);
+}
+
+// Parses the joined template strings into a tree of template nodes.
+class TemplateParser {
+  private position = 0;
+  private holes = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): TemplateNode[] {
+    return this.parseNodes();
+  }
+
+  private parseNodes(parent?: TemplateElement): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    while (this.position < this.source.length) {
+      if (this.source.startsWith("<!--", this.position)) {
+        const end = this.source.indexOf("-->", this.position + 4);
+        if (end < 0) this.error("Unterminated comment");
+        // Skip the values interpolated within the comment.
+        const comment = this.source.slice(this.position, end);
+        this.holes += comment.split(HOLE).length - 1;
+        this.position = end + 3;
+      } else if (this.source.startsWith("</", this.position)) {
+        this.parseClosingTag(parent);
+        return nodes;
+      } else if (this.source[this.position] === "<") {
+        nodes.push(this.parseElement());
+      } else if (this.source[this.position] === HOLE) {
+        nodes.push(this.holes++);
+        this.position++;
+      } else {
+        const text = this.parseText();
+        if (text) nodes.push(text);
+      }
+    }
+    if (parent) {
+      this.error(`Unclosed <${this.describeTagName(parent.tagName)}>`);
+    }
+    return nodes;
+  }
+
+  private parseText(): string {
+    const start = this.position;
+    while (
+      this.position < this.source.length &&
+      this.source[this.position] !== "<" &&
+      this.source[this.position] !== HOLE
+    ) {
+      this.position++;
+    }
+    // Drop indentation and line breaks, like the whitespace between tags.
+    return decodeEntities(
+      this.source
+        .slice(start, this.position)
+        .replace(/^\s*\n\s*|\s*\n\s*$/g, "")
+    );
+  }
+
+  private parseElement(): TemplateElement {
+    this.position++;
+    const element: TemplateElement = {
+      tagName: this.parseTagName(),
+      attributes: [],
+      children: [],
+    };
+    for (;;) {
+      this.skipWhitespace();
+      if (this.position >= this.source.length) {
+        this.error(`Unterminated <${this.describeTagName(element.tagName)}>`);
+      } else if (this.source.startsWith("/>", this.position)) {
+        this.position += 2;
+        return element;
+      } else if (this.source[this.position] === ">") {
+        this.position++;
+        break;
+      } else if (this.source.startsWith(`...${HOLE}`, this.position)) {
+        this.position += 4;
+        element.attributes.push({ spread: this.holes++ });
+      } else {
+        element.attributes.push(this.parseAttribute());
+      }
+    }
+    if (
+      typeof element.tagName === "string" &&
+      VOID_ELEMENTS.has(element.tagName.toLowerCase())
+    ) {
+      return element;
+    }
+    element.children = this.parseNodes(element);
+    return element;
+  }
+
+  private parseClosingTag(parent?: TemplateElement) {
+    this.position += 2;
+    let tagName: string | number;
+    if (this.source[this.position] === "/") {
+      // The closing tag `<//>` closes any element.
+      this.position++;
+      tagName = parent?.tagName ?? "/";
+    } else {
+      tagName = this.parseTagName();
+    }
+    this.skipWhitespace();
+    if (this.source[this.position] !== ">") {
+      this.error("Expected > to end the closing tag");
+    }
+    this.position++;
+    if (!parent) {
+      this.error(`Unexpected closing </${this.describeTagName(tagName)}>`);
+    }
+    const matches =
+      typeof parent.tagName === "number"
+        ? typeof tagName === "number"
+        : typeof tagName === "string" &&
+          parent.tagName.toLowerCase() === tagName.toLowerCase();
+    if (!matches) {
+      this.error(
+        `Expected closing </${this.describeTagName(parent.tagName)}>, ` +
+          `but found </${this.describeTagName(tagName)}>`
+      );
+    }
+  }
+
+  private parseTagName(): string | number {
+    if (this.source[this.position] === HOLE) {
+      this.position++;
+      return this.holes++;
+    }
+    const match = /^[a-zA-Z][\w:.-]*/.exec(this.source.slice(this.position));
+    if (!match) this.error("Expected a tag name");
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private parseAttribute(): TemplateAttribute {
+    const match = /^[^\s"'<>/=\uE000]+/.exec(this.source.slice(this.position));
+    if (!match) this.error("Expected an attribute name");
+    this.position += match[0].length;
+    const name = match[0];
+    this.skipWhitespace();
+    if (this.source[this.position] !== "=") {
+      return { name, value: true };
+    }
+    this.position++;
+    this.skipWhitespace();
+    const quote = this.source[this.position];
+    const value: TemplateValue = [];
+    if (quote === '"' || quote === "'") {
+      const end = this.source.indexOf(quote, this.position + 1);
+      if (end < 0) this.error(`Unterminated value of attribute "${name}"`);
+      const parts = this.source.slice(this.position + 1, end).split(/(\uE000)/);
+      for (const part of parts) {
+        if (part === HOLE) {
+          value.push(this.holes++);
+        } else if (part) {
+          value.push(decodeEntities(part));
+        }
+      }
+      this.position = end + 1;
+    } else if (quote === HOLE) {
+      value.push(this.holes++);
+      this.position++;
+    } else {
+      const unquoted = /^[^\s"'<>=`\uE000]+/.exec(
+        this.source.slice(this.position)
+      );
+      if (!unquoted) this.error(`Expected a value of attribute "${name}"`);
+      value.push(decodeEntities(unquoted[0]));
+      this.position += unquoted[0].length;
+    }
+    return { name, value };
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.source[this.position] ?? "")) {
+      this.position++;
+    }
+  }
+
+  private describeTagName(tagName: string | number): string {
+    return typeof tagName === "number" ? "${...}" : tagName;
+  }
+
+  private error(message: string): never {
+    const context = this.source
+      .slice(Math.max(0, this.position - 20), this.position + 20)
+      .replaceAll(HOLE, "${...}");
+    throw new SyntaxError(`${message} in html template near "${context}".`);
+  }
+}
+
+// Instantiates the template nodes with the interpolated values.
+function instantiateNodes(
+  nodes: TemplateNode[],
+  values: unknown[]
+): VirtualChild[] {
+  const result: VirtualChild[] = [];
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      result.push(node);
+    } else if (typeof node === "number") {
+      flattenValue(values[node], result);
+    } else {
+      result.push(instantiateElement(node, values));
+    }
+  }
+  return result;
+}
+
+// Instantiates a template element with the interpolated values.
+function instantiateElement(
+  element: TemplateElement,
+  values: unknown[]
+): VirtualDOM<any> | ComponentDOM<any> {
+  const props: Record<string, unknown> = {};
+  for (const attribute of element.attributes) {
+    if ("spread" in attribute) {
+      Object.assign(props, values[attribute.spread]);
+      continue;
+    }
+    let { name } = attribute;
+    if (name.startsWith("@")) {
+      name = `on${name.slice(1)}`;
+    } else if (name.startsWith(".")) {
+      name = PROPERTY_PREFIX + name.slice(1);
+    }
+    const value = attribute.value;
+    if (value === true) {
+      props[name] = true;
+    } else if (value.length === 1 && typeof value[0] === "number") {
+      props[name] = values[value[0]];
+    } else {
+      props[name] = value
+        .map((part) =>
+          typeof part === "number" ? String(values[part] ?? "") : part
+        )
+        .join("");
+    }
+  }
+  const children = instantiateNodes(element.children, values);
+  if (typeof element.tagName === "number") {
+    const tagName = values[element.tagName];
+    if (typeof tagName === "function") {
+      return createVirtual(tagName as Component, props, ...children);
+    }
+    return createVirtual(
+      String(tagName) as keyof HTMLElementTagNameMap,
+      props,
+      ...children
+    );
+  }
+  return createVirtual(
+    element.tagName as keyof HTMLElementTagNameMap,
+    props,
+    ...children
+  );
+}
+
+// Flattens an interpolated child value into a list of virtual children.
+function flattenValue(value: unknown, result: VirtualChild[]) {
+  if (Array.isArray(value)) {
+    for (const each of value) {
+      flattenValue(each, result);
+    }
+  } else if (
+    (typeof value === "object" && value !== null) ||
+    typeof value === "function"
+  ) {
+    // Nodes, promises and loader functions of asynchronous children.
+    result.push(value as VirtualChild);
+  } else if (
+    value !== null &&
+    value !== undefined &&
+    typeof value !== "boolean"
+  ) {
+    result.push(String(value));
+  }
+}
+
+// Decodes the most common character references in static markup.
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(?:#(\d+)|#x([\da-f]+)|(amp|lt|gt|quot|apos|nbsp));/gi,
+    (entity, decimal, hex, name) => {
+      if (name) return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+      const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+      // Like browsers, invalid code points become the replacement character.
+      return codePoint > 0 &&
+        codePoint <= 0x10ffff &&
+        (codePoint < 0xd800 || codePoint > 0xdfff)
+        ? String.fromCodePoint(codePoint)
+        : "\uFFFD";
+    }
+  );
+}
+
+// Named character references supported in static markup.
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00A0",
+};
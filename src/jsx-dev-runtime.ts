@@ -0,0 +1,17 @@
+import { type Component, Fragment } from "./dom.js";
+import { type JSX, jsx } from "./jsx-runtime.js";
+
+export { Fragment, type JSX };
+
+/**
+ * Creates a `VirtualDOM` node from a JSX expression, as called by the code
+ * generated for `"jsx": "react-jsxdev"`. The additional debug information is
+ * ignored.
+ */
+export function jsxDEV(
+  type: string | Component,
+  props: Record<string, unknown>,
+  key?: string | number
+): JSX.Element {
+  return jsx(type, props, key);
+}
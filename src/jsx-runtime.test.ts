@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import { createElement, Fragment, type VirtualDOM } from "./dom";
+import { jsx, jsxs } from "./jsx-runtime";
+
+const handler: EventListener = () => 1;
+
+describe("jsx", () => {
+  test("as simple as it gets", () => {
+    expect(jsx("div", {})).toEqual({ tagName: "div" });
+  });
+  test("with attributes", () => {
+    expect(jsx("p", { class: "foo", id: "bar" })).toEqual({
+      tagName: "p",
+      attributes: { class: "foo", id: "bar" },
+    });
+  });
+  test("with listener", () => {
+    expect(jsx("p", { onClick: handler })).toEqual({
+      tagName: "p",
+      listeners: { click: { listener: handler } },
+    });
+  });
+  test("with properties", () => {
+    expect(jsx("input", { "prop:value": "foo" })).toEqual({
+      tagName: "input",
+      properties: { value: "foo" },
+    });
+  });
+  test("with key", () => {
+    expect(jsx("li", {}, "1")).toEqual({
+      tagName: "li",
+      attributes: { key: "1" },
+    });
+  });
+  test("with single child", () => {
+    expect(jsx("p", { children: "Hello" })).toEqual({
+      tagName: "p",
+      children: ["Hello"],
+    });
+  });
+  test("with static children", () => {
+    expect(
+      jsxs("p", { children: ["Hello", jsx("b", { children: "World" })] })
+    ).toEqual({
+      tagName: "p",
+      children: ["Hello", { tagName: "b", children: ["World"] }],
+    });
+  });
+  test("with flattened and skipped children", () => {
+    expect(
+      jsxs("p", { children: [1, [null, ["a", false]], undefined, true] })
+    ).toEqual({
+      tagName: "p",
+      children: ["1", "a"],
+    });
+  });
+  test("with component", () => {
+    const Greeting = ({ name }: { name: string }) =>
+      jsx("p", { children: `Hello ${name}` });
+    expect(jsx(Greeting, { name: "World" })).toEqual({
+      component: Greeting,
+      props: { name: "World" },
+    });
+    expect(jsx(Greeting, { name: "World" }, "a")).toEqual({
+      component: Greeting,
+      props: { name: "World", key: "a" },
+    });
+  });
+  test("with fragment", () => {
+    const fragment = jsxs(Fragment, {
+      children: [jsx("dt", { children: "a" }), jsx("dd", { children: "b" })],
+    });
+    const element = createElement(
+      jsx("dl", { children: fragment }) as VirtualDOM<"dl">
+    );
+    expect(element.outerHTML).toEqual("<dl><dt>a</dt><dd>b</dd></dl>");
+  });
+});
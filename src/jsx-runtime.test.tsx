@@ -0,0 +1,48 @@
+import { describe, expect, test } from "vitest";
+
+describe("jsx types", () => {
+  test("accept attributes", () => {
+    const element = (
+      <a
+        href="/"
+        tabindex={0}
+        hidden={false}
+        data-id={1}
+        aria-label="Home"
+        onClick={() => {}}
+      />
+    );
+    expect(element).toEqual({
+      tagName: "a",
+      attributes: {
+        href: "/",
+        tabindex: "0",
+        "data-id": "1",
+        "aria-label": "Home",
+      },
+      listeners: { click: { listener: expect.any(Function) } },
+    });
+  });
+  test("accept svg attributes", () => {
+    const element = (
+      <svg viewBox="0 0 10 10">
+        <circle cx={5} cy={5} r={4} stroke-width={2} />
+      </svg>
+    );
+    expect(element).toMatchObject({ tagName: "svg" });
+  });
+  test("reject unknown props", () => {
+    // @ts-expect-error misspelled listener
+    const listener = <div onClik={5} />;
+    // @ts-expect-error unknown attribute
+    const attribute = <div bogus={{ x: 1 }} />;
+    expect([listener, attribute]).toHaveLength(2);
+  });
+  test("reject invalid values", () => {
+    // @ts-expect-error attribute value that is not a primitive
+    const value = <a href={new Date()} />;
+    // @ts-expect-error listener that is not a function
+    const listener = <button onClick="alert()" />;
+    expect([value, listener]).toHaveLength(2);
+  });
+});
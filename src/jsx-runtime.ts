@@ -0,0 +1,271 @@
+import {
+  type Classes,
+  type Component,
+  type ComponentDOM,
+  type Listener,
+  type Ref,
+  type Style,
+  type VirtualChild,
+  type VirtualDOM,
+  createVirtual,
+  Fragment,
+  KEY_ATTRIBUTE,
+  PROPERTY_PREFIX,
+} from "./dom.js";
+
+export { Fragment };
+
+// Prefix of JSX props that are assigned as properties, such as `prop:value`.
+const JSX_PROPERTY_PREFIX = "prop:";
+
+// Types used for the props of intrinsic elements.
+type AttributeValue = string | number | boolean | null | undefined;
+type EventHandler<E> = ((event: E) => void) | EventListenerObject | Listener;
+type EventProps<M> = {
+  [K in keyof M as K extends string ? `on${Capitalize<K>}` : never]?:
+    | EventHandler<M[K]>
+    | Array<EventHandler<M[K]>>;
+};
+// Attributes reflecting the properties of an element with a primitive value,
+// by property name and in lowercase, such as `tabIndex` and `tabindex`.
+type ReflectedAttributes<E> = {
+  [K in keyof E as E[K] extends AttributeValue
+    ? K extends string
+      ? K | Lowercase<K>
+      : never
+    : never]?: AttributeValue;
+};
+// Attributes without a property of the same name and primitive value.
+type OtherAttributes = {
+  [K in
+    | "for"
+    | "form"
+    | "list"
+    | "part"
+    | "is"
+    | "sizes"
+    | "accept-charset"
+    | "http-equiv"
+    | "popovertarget"]?: AttributeValue;
+} & {
+  [attribute: `data-${string}`]: AttributeValue;
+  [attribute: `aria-${string}`]: AttributeValue;
+};
+// Attributes of SVG elements, whose properties hold animated values.
+type SVGAttributes = {
+  [K in
+    | "clip-path"
+    | "clip-rule"
+    | "cx"
+    | "cy"
+    | "d"
+    | "display"
+    | "dominant-baseline"
+    | "dx"
+    | "dy"
+    | "fill"
+    | "fill-opacity"
+    | "fill-rule"
+    | "filter"
+    | "font-family"
+    | "font-size"
+    | "font-weight"
+    | "gradientTransform"
+    | "gradientUnits"
+    | "height"
+    | "href"
+    | "lang"
+    | "marker-end"
+    | "marker-start"
+    | "markerHeight"
+    | "markerWidth"
+    | "mask"
+    | "offset"
+    | "opacity"
+    | "orient"
+    | "pathLength"
+    | "patternUnits"
+    | "points"
+    | "preserveAspectRatio"
+    | "r"
+    | "refX"
+    | "refY"
+    | "rx"
+    | "ry"
+    | "stop-color"
+    | "stop-opacity"
+    | "stroke"
+    | "stroke-dasharray"
+    | "stroke-dashoffset"
+    | "stroke-linecap"
+    | "stroke-linejoin"
+    | "stroke-opacity"
+    | "stroke-width"
+    | "text-anchor"
+    | "transform"
+    | "viewBox"
+    | "visibility"
+    | "width"
+    | "x"
+    | "x1"
+    | "x2"
+    | "xmlns"
+    | "y"
+    | "y1"
+    | "y2"]?: AttributeValue;
+};
+// Attributes of MathML elements, which have no properties for them.
+type MathMLAttributes = {
+  [K in
+    | "accent"
+    | "accentunder"
+    | "columnalign"
+    | "columnspan"
+    | "dir"
+    | "display"
+    | "displaystyle"
+    | "encoding"
+    | "fence"
+    | "href"
+    | "largeop"
+    | "linethickness"
+    | "lspace"
+    | "mathbackground"
+    | "mathcolor"
+    | "mathsize"
+    | "mathvariant"
+    | "movablelimits"
+    | "notation"
+    | "rowalign"
+    | "rowspan"
+    | "rspace"
+    | "scriptlevel"
+    | "separator"
+    | "stretchy"
+    | "symmetric"
+    | "xmlns"]?: AttributeValue;
+};
+type PropertyProps<E> = {
+  [K in keyof E as E[K] extends Function
+    ? never
+    : K extends string
+      ? `prop:${K}`
+      : never]?: E[K];
+};
+type IntrinsicProps<E, M, A = {}> = EventProps<M> &
+  PropertyProps<E> &
+  ReflectedAttributes<E> &
+  OtherAttributes &
+  A & {
+    key?: string | number;
+    children?: VirtualChild;
+    ref?: Ref<E>;
+    onMount?: (element: E) => void;
+    onUpdate?: (element: E) => void;
+    onUnmount?: (element: E) => void;
+    style?: string | Style;
+    class?: string | Classes;
+  };
+
+export declare namespace JSX {
+  /** The result of a JSX expression. */
+  type Element = VirtualDOM<any> | ComponentDOM<any>;
+  /** The prop holding the children of components. */
+  interface ElementChildrenAttribute {
+    children: {};
+  }
+  /** Props accepted by all elements and components. */
+  interface IntrinsicAttributes {
+    key?: string | number;
+  }
+  /** The intrinsic HTML, SVG and MathML elements with their props. */
+  type IntrinsicElements = {
+    [K in keyof HTMLElementTagNameMap]: IntrinsicProps<
+      HTMLElementTagNameMap[K],
+      HTMLElementEventMap
+    >;
+  } & {
+    [K in Exclude<
+      keyof SVGElementTagNameMap,
+      keyof HTMLElementTagNameMap
+    >]: IntrinsicProps<
+      SVGElementTagNameMap[K],
+      SVGElementEventMap,
+      SVGAttributes
+    >;
+  } & {
+    [K in Exclude<
+      keyof MathMLElementTagNameMap,
+      keyof HTMLElementTagNameMap | keyof SVGElementTagNameMap
+    >]: IntrinsicProps<
+      MathMLElementTagNameMap[K],
+      MathMLElementEventMap,
+      MathMLAttributes
+    >;
+  };
+}
+
+/**
+ * Creates a `VirtualDOM` node from a JSX expression, as called by the code
+ * TypeScript and other compilers generate for `"jsx": "react-jsx"` with
+ * `"jsxImportSource": "web-foundations"`, which resolves to this module
+ * through the `web-foundations/jsx-runtime` export of the package.
+ *
+ * Intrinsic elements follow the conventions of `createVirtual`, except that
+ * properties are prefixed with `prop:` (for example `prop:value`), since JSX
+ * does not allow attribute names starting with a `.`. Nested child arrays are
+ * flattened, `null`, `undefined` and booleans are skipped, and numbers are
+ * converted to text. Components receive their props unchanged.
+ */
+export function jsx(
+  type: string | Component,
+  props: Record<string, unknown>,
+  key?: string | number
+): JSX.Element {
+  if (typeof type === "function") {
+    return {
+      component: type,
+      props: key === undefined ? props : { ...props, [KEY_ATTRIBUTE]: key },
+    };
+  }
+  const { children, ...rest } = props;
+  const virtualProps: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(rest)) {
+    if (name.startsWith(JSX_PROPERTY_PREFIX)) {
+      virtualProps[PROPERTY_PREFIX + name.slice(JSX_PROPERTY_PREFIX.length)] =
+        value;
+    } else {
+      virtualProps[name] = value;
+    }
+  }
+  if (key !== undefined) {
+    virtualProps[KEY_ATTRIBUTE] = key;
+  }
+  const virtualChildren: VirtualChild[] = [];
+  flattenChildren(children as VirtualChild, virtualChildren);
+  return createVirtual(
+    type as keyof HTMLElementTagNameMap,
+    virtualProps,
+    ...virtualChildren
+  );
+}
+
+/** Creates a `VirtualDOM` node from a JSX expression with static children. */
+export const jsxs = jsx;
+
+// Flattens the children of a JSX expression into a list of virtual children.
+function flattenChildren(child: VirtualChild, result: VirtualChild[]) {
+  if (Array.isArray(child)) {
+    for (const each of child) {
+      flattenChildren(each, result);
+    }
+  } else if (typeof child === "number") {
+    result.push(String(child));
+  } else if (
+    child !== null &&
+    child !== undefined &&
+    typeof child !== "boolean"
+  ) {
+    result.push(child);
+  }
+}
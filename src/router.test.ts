@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+  type Component,
+  createVirtual,
+  updateElement,
+  REGISTERED_LISTENERS,
+} from "./dom";
+import { type RouteProps, type Router, createRouter, route } from "./router";
+
+const Layout: Component<RouteProps> = ({ children }) =>
+  createVirtual("main", {}, ...(children ?? []));
+const Home: Component<RouteProps> = () => createVirtual("h1", {}, "Home");
+const User = ({ params, query }: RouteProps<{ id: string }>) =>
+  createVirtual("h1", {}, `User ${params.id}`, query.get("tab") ?? "");
+const NotFound = ({ path }: { path: string }) =>
+  createVirtual("h1", {}, `Missing ${path}`);
+
+const routes = [
+  route({
+    path: "/",
+    component: Layout,
+    children: [
+      route({ path: "", component: Home }),
+      route({ path: "users/:id", component: User }),
+      route({
+        path: "lazy",
+        load: async () => ({
+          default: () => createVirtual("h1", {}, "Lazy"),
+        }),
+      }),
+      route({
+        path: "files/*",
+        component: ({ params }) => createVirtual("h1", {}, params["*"]),
+      }),
+    ],
+  }),
+];
+
+describe("createRouter", () => {
+  let container: HTMLElement;
+  let router: Router;
+  let initial: string;
+
+  beforeEach(() => {
+    initial = location.href;
+    container = document.createElement("div");
+    container.id = "app";
+    document.body.append(container);
+  });
+  afterEach(() => {
+    router.stop();
+    container.remove();
+    history.replaceState(null, "", initial);
+  });
+
+  describe("hash mode", () => {
+    beforeEach(async () => {
+      history.replaceState(null, "", "#/");
+      router = createRouter(container, routes, {
+        mode: "hash",
+        notFound: NotFound,
+      });
+      await router.start();
+    });
+    test("start", () => {
+      expect(router.path).toBe("/");
+      expect(container.outerHTML).toBe(
+        '<div id="app"><main><h1>Home</h1></main></div>'
+      );
+    });
+    test("navigate", async () => {
+      await router.navigate("/users/42?tab=posts");
+      expect(location.hash).toBe("#/users/42?tab=posts");
+      expect(router.path).toBe("/users/42?tab=posts");
+      expect(container.innerHTML).toBe("<main><h1>User 42posts</h1></main>");
+    });
+    test("navigate keeps layout", async () => {
+      const main = container.firstChild;
+      await router.navigate("/users/1");
+      expect(container.firstChild).toBe(main);
+    });
+    test("navigate decodes params", async () => {
+      await router.navigate("/users/a%20b");
+      expect(container.innerHTML).toBe("<main><h1>User a b</h1></main>");
+    });
+    test("navigate to malformed params", async () => {
+      await router.navigate("/users/%E0%A4%A");
+      expect(container.innerHTML).toBe("<h1>Missing /users/%E0%A4%A</h1>");
+    });
+    test("navigate to wildcard", async () => {
+      await router.navigate("/files/docs/readme.md");
+      expect(container.innerHTML).toBe(
+        "<main><h1>docs/readme.md</h1></main>"
+      );
+    });
+    test("navigate to lazy route", async () => {
+      await router.navigate("/lazy");
+      expect(container.innerHTML).toBe("<main><h1>Lazy</h1></main>");
+    });
+    test("navigate to missing route", async () => {
+      await router.navigate("/users");
+      expect(container.innerHTML).toBe("<h1>Missing /users</h1>");
+    });
+    test("navigate replace", async () => {
+      const length = history.length;
+      await router.navigate("/users/1", { replace: true });
+      expect(history.length).toBe(length);
+    });
+    test("href", () => {
+      expect(router.href("/users/1")).toBe("#/users/1");
+    });
+    test("back", async () => {
+      await router.navigate("/users/1");
+      const changed = new Promise((resolve) =>
+        window.addEventListener("hashchange", resolve, { once: true })
+      );
+      history.back();
+      await changed;
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(router.path).toBe("/");
+      expect(container.innerHTML).toBe("<main><h1>Home</h1></main>");
+    });
+    test("intercept link", async () => {
+      const link = document.createElement("a");
+      link.href = router.href("/users/7");
+      container.firstChild!.appendChild(link);
+      link.click();
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(router.path).toBe("/users/7");
+      expect(container.innerHTML).toBe("<main><h1>User 7</h1></main>");
+    });
+    test("ignore link with target", async () => {
+      const link = document.createElement("a");
+      link.href = router.href("/users/7");
+      link.target = "_blank";
+      link.addEventListener("click", (event) => event.preventDefault());
+      container.append(link);
+      link.click();
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(router.path).toBe("/");
+    });
+    test("ignore link with modifier", async () => {
+      const link = document.createElement("a");
+      link.href = router.href("/users/7");
+      link.addEventListener("click", (event) => event.preventDefault());
+      container.append(link);
+      link.dispatchEvent(
+        new MouseEvent("click", { bubbles: true, ctrlKey: true })
+      );
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(router.path).toBe("/");
+    });
+    test("keep the container", async () => {
+      const onClick = () => {};
+      updateElement(
+        container as HTMLDivElement,
+        createVirtual("div", { id: "app", class: ["layout"], onClick })
+      );
+      await router.navigate("/users/1");
+      expect(container.className).toBe("layout");
+      expect(container[REGISTERED_LISTENERS]).toEqual({
+        click: [{ listener: onClick }],
+      });
+    });
+    test("stop", async () => {
+      router.stop();
+      location.hash = "#/users/3";
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(container.innerHTML).toBe("<main><h1>Home</h1></main>");
+    });
+  });
+
+  describe("history mode", () => {
+    let base: string;
+
+    beforeEach(async () => {
+      base = location.pathname.replace(/\/$/, "");
+      router = createRouter(container, routes, { base });
+      await router.start();
+    });
+    test("navigate", async () => {
+      await router.navigate("/users/5");
+      expect(location.pathname).toBe(`${base}/users/5`);
+      expect(container.innerHTML).toBe("<main><h1>User 5</h1></main>");
+    });
+    test("href", () => {
+      expect(router.href("/users/5")).toBe(`${base}/users/5`);
+    });
+    test("intercept links within the base only", async () => {
+      router.stop();
+      router = createRouter(container, routes, { base: "/app" });
+      await router.start();
+      const intercepted: boolean[] = [];
+      const onClick = (event: Event) => {
+        intercepted.push(event.defaultPrevented);
+        // Prevent the test page from navigating away.
+        event.preventDefault();
+      };
+      window.addEventListener("click", onClick);
+      try {
+        for (const href of ["/application/users/7", "/app/users/7"]) {
+          const link = document.createElement("a");
+          link.href = href;
+          container.append(link);
+          link.click();
+          await new Promise((resolve) => setTimeout(resolve));
+        }
+      } finally {
+        window.removeEventListener("click", onClick);
+      }
+      expect(intercepted).toEqual([false, true]);
+      expect(router.path).toBe("/users/7");
+    });
+    test("back restores scroll position", async () => {
+      document.body.style.height = "10000px";
+      try {
+        window.scrollTo(0, 500);
+        await router.navigate("/users/5");
+        expect(window.scrollY).toBe(0);
+        const popped = new Promise((resolve) =>
+          window.addEventListener("popstate", resolve, { once: true })
+        );
+        history.back();
+        await popped;
+        await new Promise((resolve) => setTimeout(resolve));
+        expect(window.scrollY).toBe(500);
+      } finally {
+        document.body.style.height = "";
+      }
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  type Component,
+  type VirtualChild,
+  createVirtual,
+  updateElementChildren,
+} from "./dom.js";
+
+/**
+ * The params of a path pattern, such as `{ id: string }` for `/users/:id`.
+ * Params ending in `?` are optional, and a trailing `*` matches the rest of
+ * the path.
+ */
+export type PathParams<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? PathParams<Head> & PathParams<Tail>
+  : P extends `:${infer Name}?`
+    ? { [K in Name]?: string }
+    : P extends `:${infer Name}`
+      ? { [K in Name]: string }
+      : P extends "*"
+        ? { "*": string }
+        : {};
+
+/** Props passed to the components of the matched routes. */
+export interface RouteProps<P = Record<string, string | undefined>> {
+  /** The params of the matched path, including those of the parent routes. */
+  params: P;
+  /** The query of the current location. */
+  query: URLSearchParams;
+  /** The view of the matched child route, if any. */
+  children?: VirtualChild[];
+}
+
+/** A module with a route component as its default export. */
+export interface RouteModule {
+  default: Component<RouteProps<any>>;
+}
+
+/** Definition of a route. */
+export interface Route<P extends string = string> {
+  /**
+   * The path pattern, relative to the parent route. Segments starting with a
+   * `:` are params, and a final `*` matches the rest of the path.
+   */
+  path: P;
+  /** The component rendering the route, receiving the child view. */
+  component?: Component<RouteProps<PathParams<P>>>;
+  /** Loads the component lazily, for example with a dynamic `import()`. */
+  load?: () => Promise<RouteModule>;
+  /** Nested routes, rendered within the component of this route. */
+  children?: Route<any>[];
+}
+
+/** Options of the [createRouter] function. */
+export interface RouterOptions {
+  /** Uses the History API (default), or the hash of the location. */
+  mode?: "history" | "hash";
+  /** The base path of the application in history mode. */
+  base?: string;
+  /** Component rendered if no route matches. */
+  notFound?: Component<{ path: string }>;
+}
+
+/** Options of the [Router.navigate] function. */
+export interface NavigateOptions {
+  /** Replaces the current history entry, instead of adding a new one. */
+  replace?: boolean;
+}
+
+/** A router rendering the view of the current location into a container. */
+export interface Router {
+  /** The path of the rendered location, including the query. */
+  readonly path: string;
+  /** Renders the current location, and starts following navigations. */
+  start(): Promise<void>;
+  /** Stops following navigations. */
+  stop(): void;
+  /** Navigates to the path, and resolves once its view is rendered. */
+  navigate(path: string, options?: NavigateOptions): Promise<void>;
+  /** Returns the `href` of a link to the path. */
+  href(path: string): string;
+}
+
+// A matched route and the params of the complete path.
+interface Match {
+  route: Route;
+  params: Record<string, string>;
+}
+
+// Components of the lazily loaded routes.
+const loadedComponents = new WeakMap<Route, Component>();
+
+/**
+ * Helper to define a route with typed params.
+ *
+ * @example
+ * route({
+ *   path: "/users/:id",
+ *   component: ({ params }) => createVirtual("h1", {}, params.id),
+ * });
+ */
+export function route<P extends string>(
+  definition: Route<P>
+): Route<NoInfer<P>> {
+  // `NoInfer` keeps nested routes from inferring `P` from their parent.
+  return definition;
+}
+
+/**
+ * Creates a router rendering the components of the routes matching the
+ * current location into the children of `container`, using
+ * `updateElementChildren`. Components of nested routes are passed as
+ * `children` to the components of their parents, so that those can serve as
+ * layouts.
+ *
+ * Once started, the router follows the back and forward buttons, and
+ * intercepts the clicks on links within the container that point into the
+ * application. The scroll position is reset on new navigations, and restored
+ * when returning to previous ones.
+ *
+ * @example
+ * const router = createRouter(document.getElementById("app")!, [
+ *   route({
+ *     path: "/",
+ *     component: Layout,
+ *     children: [
+ *       route({ path: "", component: Home }),
+ *       route({ path: "users/:id", load: () => import("./user.js") }),
+ *     ],
+ *   }),
+ * ]);
+ * await router.start();
+ */
+export function createRouter(
+  container: Element,
+  routes: Route<any>[],
+  { mode = "history", base = "", notFound }: RouterOptions = {}
+): Router {
+  let currentPath = "";
+  let currentKey = "";
+  let renderCount = 0;
+  let started = false;
+  let scrollRestoration: ScrollRestoration = "auto";
+  const scrollPositions = new Map<string, [number, number]>();
+
+  // Conversions between application paths and URLs.
+  const readPath = () =>
+    mode === "hash"
+      ? location.hash.slice(1) || "/"
+      : (location.pathname.slice(base.length) || "/") + location.search;
+  const href = (path: string) =>
+    mode === "hash" ? `#${path}` : `${base}${path}`;
+  const toPath = (url: URL): string | undefined => {
+    if (url.origin !== location.origin) return undefined;
+    if (mode === "hash") {
+      return url.pathname === location.pathname && url.hash.startsWith("#/")
+        ? url.hash.slice(1)
+        : undefined;
+    }
+    // The base only contains whole segments, `/app` does not `/application`.
+    if (url.pathname !== base && !url.pathname.startsWith(`${base}/`)) {
+      return undefined;
+    }
+    return (url.pathname.slice(base.length) || "/") + url.search + url.hash;
+  };
+
+  // Renders the current location, and then scrolls to `scroll`.
+  const render = async (scroll?: [number, number]) => {
+    const count = ++renderCount;
+    const path = readPath();
+    const url = new URL(path, "http://localhost");
+    const matches = matchRoutes(routes, splitPath(url.pathname), {});
+    const components = await Promise.all(
+      (matches ?? []).map(({ route }) => loadComponent(route))
+    );
+    if (count !== renderCount || !started) return;
+    let view: VirtualChild = null;
+    if (matches) {
+      const params = matches.at(-1)!.params;
+      const query = url.searchParams;
+      for (let i = matches.length - 1; i >= 0; i--) {
+        const component = components[i];
+        if (!component) continue;
+        view =
+          view === null
+            ? createVirtual(component, { params, query })
+            : createVirtual(component, { params, query }, view);
+      }
+    } else if (notFound) {
+      view = createVirtual(notFound, { path });
+    }
+    updateElementChildren(container, view);
+    currentPath = path;
+    currentKey = history.state?.key ?? currentKey;
+    if (scroll) window.scrollTo(...scroll);
+  };
+
+  // Follows the navigations of the browser.
+  const onNavigation = () => {
+    if (readPath() === currentPath && history.state?.key === currentKey) return;
+    scrollPositions.set(currentKey, [window.scrollX, window.scrollY]);
+    if (!history.state?.key) {
+      history.replaceState({ key: createKey() }, "");
+    }
+    render(scrollPositions.get(history.state.key) ?? [0, 0]).catch(reportError);
+  };
+
+  // Intercepts clicks on links pointing into the application.
+  const onClick = (event: Event) => {
+    const { button, metaKey, ctrlKey, shiftKey, altKey } = event as MouseEvent;
+    if (event.defaultPrevented || button !== 0) return;
+    if (metaKey || ctrlKey || shiftKey || altKey) return;
+    const anchor = (event.target as Element).closest?.("a[href]");
+    if (
+      !(anchor instanceof HTMLAnchorElement) ||
+      !container.contains(anchor) ||
+      anchor.hasAttribute("download") ||
+      (anchor.target && anchor.target !== "_self")
+    ) {
+      return;
+    }
+    const path = toPath(new URL(anchor.href));
+    if (path === undefined) return;
+    event.preventDefault();
+    router.navigate(path).catch(reportError);
+  };
+
+  const router: Router = {
+    get path() {
+      return currentPath;
+    },
+    async start() {
+      if (started) return;
+      started = true;
+      scrollRestoration = history.scrollRestoration;
+      history.scrollRestoration = "manual";
+      if (!history.state?.key) {
+        history.replaceState({ ...history.state, key: createKey() }, "");
+      }
+      window.addEventListener(
+        mode === "hash" ? "hashchange" : "popstate",
+        onNavigation
+      );
+      container.addEventListener("click", onClick);
+      await render();
+    },
+    stop() {
+      if (!started) return;
+      started = false;
+      history.scrollRestoration = scrollRestoration;
+      window.removeEventListener(
+        mode === "hash" ? "hashchange" : "popstate",
+        onNavigation
+      );
+      container.removeEventListener("click", onClick);
+    },
+    async navigate(path, { replace = false } = {}) {
+      scrollPositions.set(currentKey, [window.scrollX, window.scrollY]);
+      const state = { key: createKey() };
+      if (replace) {
+        history.replaceState(state, "", href(path));
+      } else {
+        history.pushState(state, "", href(path));
+      }
+      await render([0, 0]);
+    },
+    href,
+  };
+  return router;
+}
+
+// Matches the routes against the path segments, and returns the chain of
+// matched routes from the outermost to the innermost.
+function matchRoutes(
+  routes: Route[],
+  segments: string[],
+  params: Record<string, string>
+): Match[] | undefined {
+  for (const route of routes) {
+    const pattern = splitPath(route.path);
+    const matched = matchSegments(pattern, segments, params, !!route.children);
+    if (!matched) continue;
+    const rest = segments.slice(matched.length);
+    if (route.children) {
+      const children = matchRoutes(route.children, rest, matched.params);
+      if (children) return [{ route, params: matched.params }, ...children];
+    }
+    if (rest.length === 0) {
+      return [{ route, params: matched.params }];
+    }
+  }
+  return undefined;
+}
+
+// Matches the pattern against the beginning of the segments, and returns the
+// number of matched segments and the resulting params.
+function matchSegments(
+  pattern: string[],
+  segments: string[],
+  params: Record<string, string>,
+  prefix: boolean
+): { length: number; params: Record<string, string> } | undefined {
+  const result = { ...params };
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i];
+    if (part === "*") {
+      result["*"] = segments.slice(i).join("/");
+      return { length: segments.length, params: result };
+    }
+    const segment = segments[i];
+    if (part.startsWith(":")) {
+      const optional = part.endsWith("?");
+      const name = part.slice(1, optional ? -1 : undefined);
+      if (segment === undefined) {
+        if (optional) continue;
+        return undefined;
+      }
+      try {
+        result[name] = decodeURIComponent(segment);
+      } catch {
+        // Malformed escape sequences do not match.
+        return undefined;
+      }
+    } else if (part !== segment) {
+      return undefined;
+    }
+  }
+  const length = Math.min(pattern.length, segments.length);
+  if (!prefix && length < segments.length) return undefined;
+  return { length, params: result };
+}
+
+// Splits a path into its non-empty segments.
+function splitPath(path: string): string[] {
+  return path.split("/").filter((segment) => segment !== "");
+}
+
+// Returns the component of a route, loading it if necessary.
+async function loadComponent(route: Route): Promise<Component | undefined> {
+  if (route.component) return route.component;
+  if (!route.load) return undefined;
+  let component = loadedComponents.get(route);
+  if (!component) {
+    component = (await route.load()).default;
+    loadedComponents.set(route, component);
+  }
+  return component;
+}
+
+// Creates a unique key identifying a history entry.
+function createKey(): string {
+  return Math.random().toString(36).slice(2);
+}
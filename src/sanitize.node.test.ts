@@ -0,0 +1,55 @@
+import { describe, expect, test } from "vitest";
+import { sanitizeHTML } from "./sanitize";
+
+describe("sanitizeHTML without a DOM", () => {
+  test("keeps allowed markup", () => {
+    const input = '<p class="lead">Hello <a href="https://example.com" title="x">World</a></p>';
+    expect(sanitizeHTML(input)).toEqual(input);
+  });
+  test("removes scripts and styles with their content", () => {
+    expect(
+      sanitizeHTML("<p>a<script>alert('</p>')</script><style>p {}</style>b</p>")
+    ).toEqual("<p>ab</p>");
+  });
+  test("unwraps unknown elements", () => {
+    expect(sanitizeHTML("<marquee><b>Hi</b></marquee>")).toEqual("<b>Hi</b>");
+  });
+  test("unwraps foreign elements", () => {
+    expect(
+      sanitizeHTML("<svg><a href='#'><text>Hi</text></a><script>x</script></svg>")
+    ).toEqual("Hi");
+  });
+  test("removes event handlers", () => {
+    expect(
+      sanitizeHTML('<img src="a.png" onerror="alert(1)" alt="A">')
+    ).toEqual('<img src="a.png" alt="A">');
+  });
+  test("removes attributes not allowed", () => {
+    expect(
+      sanitizeHTML('<p style="color: red" data-id="1" aria-label=\'"x"\'>a</p>')
+    ).toEqual('<p data-id="1" aria-label="&quot;x&quot;">a</p>');
+  });
+  test("removes unsafe URLs", () => {
+    expect(
+      sanitizeHTML(
+        '<a href="javascript:alert(1)">a</a>' +
+          '<a href=" java\tscript:alert(1)">b</a>' +
+          '<a href="&#106;avascript&colon;alert(1)">c</a>' +
+          '<a href="/relative">d</a>'
+      )
+    ).toEqual('<a>a</a><a>b</a><a>c</a><a href="/relative">d</a>');
+  });
+  test("removes comments and doctypes", () => {
+    expect(sanitizeHTML("<!doctype html><p>a<!-- <b> -->c</p>")).toEqual(
+      "<p>ac</p>"
+    );
+  });
+  test("balances the elements", () => {
+    expect(sanitizeHTML("</div><p><b>a</p></div>c<em>d")).toEqual(
+      "<p><b>a</b></p>c<em>d</em>"
+    );
+  });
+  test("escapes text", () => {
+    expect(sanitizeHTML("a < b > c")).toEqual("a &lt; b &gt; c");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "vitest";
+import { parseHTML, sanitizeHTML } from "./sanitize";
+
+describe("sanitizeHTML", () => {
+  test("keeps allowed markup", () => {
+    const input = '<p class="lead">Hello <a href="https://example.com" title="x">World</a></p>';
+    expect(sanitizeHTML(input)).toEqual(input);
+  });
+  test("removes scripts and styles with their content", () => {
+    expect(
+      sanitizeHTML("<p>a<script>alert(1)</script><style>p {}</style>b</p>")
+    ).toEqual("<p>ab</p>");
+  });
+  test("unwraps unknown elements", () => {
+    expect(sanitizeHTML("<marquee><b>Hi</b></marquee>")).toEqual("<b>Hi</b>");
+  });
+  test("unwraps foreign elements", () => {
+    expect(
+      sanitizeHTML("<svg><a href='#'><text>Hi</text></a></svg>")
+    ).toEqual("Hi");
+  });
+  test("removes event handlers", () => {
+    expect(
+      sanitizeHTML('<img src="a.png" onerror="alert(1)" alt="A">')
+    ).toEqual('<img src="a.png" alt="A">');
+  });
+  test("removes attributes not allowed", () => {
+    expect(
+      sanitizeHTML('<p style="color: red" data-id="1" aria-label="x">a</p>')
+    ).toEqual('<p data-id="1" aria-label="x">a</p>');
+  });
+  test("removes unsafe URLs", () => {
+    expect(
+      sanitizeHTML(
+        '<a href="javascript:alert(1)">a</a>' +
+          '<a href=" java\tscript:alert(1)">b</a>' +
+          '<a href="/relative">c</a>' +
+          '<a href="mailto:a@b.c">d</a>'
+      )
+    ).toEqual('<a>a</a><a>b</a><a href="/relative">c</a><a href="mailto:a@b.c">d</a>');
+  });
+  test("removes unsafe srcset candidates", () => {
+    expect(
+      sanitizeHTML('<img srcset="a.png 1x, javascript:x 2x">')
+    ).toEqual("<img>");
+  });
+  test("removes comments", () => {
+    expect(sanitizeHTML("<p>a<!-- b -->c</p>")).toEqual("<p>ac</p>");
+  });
+  test("with custom allowlists", () => {
+    expect(
+      sanitizeHTML('<p style="color: red"><a href="ftp://x">a</a><em>b</em></p>', {
+        tags: ["p", "a"],
+        attributes: ["style", "href"],
+        schemes: ["ftp"],
+      })
+    ).toEqual('<p style="color: red"><a href="ftp://x">a</a>b</p>');
+  });
+});
+
+describe("parseHTML", () => {
+  test("returns an inert fragment", () => {
+    const fragment = parseHTML("<p>One</p><p>Two</p>");
+    expect(fragment.childNodes.length).toEqual(2);
+    expect(fragment.textContent).toEqual("OneTwo");
+  });
+});
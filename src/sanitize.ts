@@ -0,0 +1,527 @@
+/** Allowlists of the HTML sanitizer. */
+export interface SanitizeOptions {
+  /** Tag names of the allowed elements, other elements are unwrapped. */
+  tags?: string[];
+  /** Names of the allowed attributes, optionally ending in a `*` wildcard. */
+  attributes?: string[];
+  /** URL schemes allowed in attributes holding a URL, such as `href`. */
+  schemes?: string[];
+}
+
+/** A value of the Trusted Types API, created by a policy of the application. */
+export type TrustedHTML = object;
+
+// Minimal typing of the Trusted Types API, where available.
+interface TrustedTypePolicyFactory {
+  createPolicy(
+    name: string,
+    rules: { createHTML(input: string): string }
+  ): { createHTML(input: string): TrustedHTML };
+  isHTML(value: unknown): boolean;
+}
+
+/** Allowlists used by default, covering the markup of typical rich text. */
+export const DEFAULT_SANITIZE_OPTIONS: Required<SanitizeOptions> = {
+  tags: [
+    "a",
+    "abbr",
+    "b",
+    "blockquote",
+    "br",
+    "caption",
+    "cite",
+    "code",
+    "col",
+    "colgroup",
+    "dd",
+    "del",
+    "details",
+    "dfn",
+    "div",
+    "dl",
+    "dt",
+    "em",
+    "figcaption",
+    "figure",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "hr",
+    "i",
+    "img",
+    "ins",
+    "kbd",
+    "li",
+    "mark",
+    "ol",
+    "p",
+    "picture",
+    "pre",
+    "q",
+    "s",
+    "samp",
+    "small",
+    "source",
+    "span",
+    "strong",
+    "sub",
+    "summary",
+    "sup",
+    "table",
+    "tbody",
+    "td",
+    "tfoot",
+    "th",
+    "thead",
+    "time",
+    "tr",
+    "u",
+    "ul",
+  ],
+  attributes: [
+    "alt",
+    "class",
+    "colspan",
+    "datetime",
+    "dir",
+    "height",
+    "href",
+    "id",
+    "lang",
+    "media",
+    "open",
+    "rel",
+    "reversed",
+    "rowspan",
+    "sizes",
+    "span",
+    "src",
+    "srcset",
+    "start",
+    "target",
+    "title",
+    "type",
+    "width",
+    "aria-*",
+    "data-*",
+  ],
+  schemes: ["http", "https", "mailto", "tel"],
+};
+
+// Elements that are removed with their content, instead of being unwrapped.
+const REMOVED_ELEMENTS = new Set([
+  "embed",
+  "frame",
+  "frameset",
+  "iframe",
+  "noembed",
+  "noscript",
+  "object",
+  "script",
+  "style",
+  "template",
+  "title",
+  "xmp",
+]);
+
+// Attributes holding a URL, whose scheme is checked.
+const URL_ATTRIBUTES = new Set([
+  "action",
+  "background",
+  "cite",
+  "formaction",
+  "href",
+  "poster",
+  "src",
+  "xlink:href",
+]);
+
+// Attributes holding a list of URLs with descriptors.
+const SRCSET_ATTRIBUTES = new Set(["imagesrcset", "srcset"]);
+
+// Elements whose content is text, up to their closing tag.
+const RAW_TEXT_ELEMENTS = new Set([
+  "iframe",
+  "noembed",
+  "noframes",
+  "noscript",
+  "script",
+  "style",
+  "textarea",
+  "title",
+  "xmp",
+]);
+
+// Elements that have no closing tag and no children.
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "frame",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Elements starting foreign content, whose elements are not allowed.
+const FOREIGN_ELEMENTS = new Set(["math", "svg"]);
+
+// Namespace of the elements that are allowed at all.
+const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+// Allowlists of the sanitizer, normalized for lookups.
+interface NormalizedOptions {
+  tags: Set<string>;
+  attributes: string[];
+  schemes: string[];
+}
+
+// Policy used to parse the markup before sanitizing it, created on first use.
+let policy: { createHTML(input: string): TrustedHTML } | null | undefined;
+
+/**
+ * Parses HTML markup into an inert fragment. Strings are sanitized: elements
+ * not in the `tags` allowlist are unwrapped (or removed with their content in
+ * case of scripts, styles and embedded content), attributes not in the
+ * `attributes` allowlist and event-handler attributes are removed, as are
+ * URLs with a scheme not in the `schemes` allowlist. Comments are dropped.
+ *
+ * A `TrustedHTML` value created by a Trusted Types policy of the application
+ * is already vouched for, and is parsed without sanitizing it. Where Trusted
+ * Types are enforced, strings are parsed through the policy named
+ * `web-foundations-sanitizer`, which needs to be allowed.
+ *
+ * @example
+ * const fragment = parseHTML('<p onclick="steal()">Hi <script>x</script></p>');
+ * // <p>Hi </p>
+ */
+export function parseHTML(
+  html: string | TrustedHTML,
+  options: SanitizeOptions = {}
+): DocumentFragment {
+  const template = document.createElement("template");
+  if (typeof html !== "string" && isTrustedHTML(html)) {
+    template.innerHTML = html as unknown as string;
+    return template.content;
+  }
+  template.innerHTML = createParsableHTML(String(html)) as string;
+  sanitizeNodes(template.content, normalizeOptions(options));
+  return template.content;
+}
+
+/**
+ * Sanitizes HTML markup like `parseHTML`, and returns the sanitized markup.
+ *
+ * Without a DOM, such as on a server, the markup is split into tags and text
+ * instead, and serialized again with the allowed elements and attributes
+ * only. Unclosed elements are closed, and closing tags without an opening tag
+ * are dropped, so that the markup cannot affect the surrounding document.
+ * `TrustedHTML` values cannot be told apart from other objects there, and are
+ * sanitized as well.
+ */
+export function sanitizeHTML(
+  html: string | TrustedHTML,
+  options: SanitizeOptions = {}
+): string {
+  if (typeof document === "undefined") {
+    return sanitizeMarkup(String(html), normalizeOptions(options));
+  }
+  const container = document.createElement("div");
+  container.append(parseHTML(html, options));
+  return container.innerHTML;
+}
+
+// Returns the allowlists with their defaults, in lowercase.
+function normalizeOptions(options: SanitizeOptions): NormalizedOptions {
+  return {
+    tags: new Set(
+      (options.tags ?? DEFAULT_SANITIZE_OPTIONS.tags).map((tag) =>
+        tag.toLowerCase()
+      )
+    ),
+    attributes: options.attributes ?? DEFAULT_SANITIZE_OPTIONS.attributes,
+    schemes: (options.schemes ?? DEFAULT_SANITIZE_OPTIONS.schemes).map(
+      (scheme) => scheme.toLowerCase()
+    ),
+  };
+}
+
+// Tests if a value was created by a Trusted Types policy.
+function isTrustedHTML(value: unknown): boolean {
+  return getTrustedTypes()?.isHTML(value) ?? false;
+}
+
+// Returns the markup in a form that can be assigned to `innerHTML`, also when
+// Trusted Types are enforced. The markup is parsed into an inert template and
+// sanitized before any of it is inserted into the document.
+function createParsableHTML(html: string): string | TrustedHTML {
+  if (policy === undefined) {
+    policy =
+      getTrustedTypes()?.createPolicy("web-foundations-sanitizer", {
+        createHTML: (input) => input,
+      }) ?? null;
+  }
+  return policy ? policy.createHTML(html) : html;
+}
+
+// Returns the Trusted Types API of the window, if available.
+function getTrustedTypes(): TrustedTypePolicyFactory | undefined {
+  return (globalThis as { trustedTypes?: TrustedTypePolicyFactory })
+    .trustedTypes;
+}
+
+// Internal helper to sanitize the descendants of a node in place.
+function sanitizeNodes(parent: ParentNode, options: NormalizedOptions) {
+  for (const node of [...parent.childNodes]) {
+    if (node instanceof Element) {
+      const name = node.localName.toLowerCase();
+      if (node.namespaceURI !== HTML_NAMESPACE || !options.tags.has(name)) {
+        if (REMOVED_ELEMENTS.has(name)) {
+          node.remove();
+        } else {
+          sanitizeNodes(node, options);
+          node.replaceWith(...node.childNodes);
+        }
+        continue;
+      }
+      for (const attribute of [...node.attributes]) {
+        if (!isAllowedAttribute(attribute.name, attribute.value, options)) {
+          node.removeAttributeNode(attribute);
+        }
+      }
+      sanitizeNodes(node, options);
+    } else if (!(node instanceof Text)) {
+      node.remove();
+    }
+  }
+}
+
+// Tests if an attribute is allowed, and does not hold a forbidden URL.
+function isAllowedAttribute(
+  name: string,
+  value: string,
+  options: NormalizedOptions
+): boolean {
+  const lowerName = name.toLowerCase();
+  if (lowerName.startsWith("on")) return false;
+  const allowed = options.attributes.some((pattern) =>
+    pattern.endsWith("*")
+      ? lowerName.startsWith(pattern.slice(0, -1).toLowerCase())
+      : lowerName === pattern.toLowerCase()
+  );
+  if (!allowed) return false;
+  if (URL_ATTRIBUTES.has(lowerName)) {
+    return isAllowedURL(value, options.schemes);
+  }
+  if (SRCSET_ATTRIBUTES.has(lowerName)) {
+    return value
+      .split(",")
+      .every((candidate) =>
+        isAllowedURL(candidate.trim().split(/\s+/)[0] ?? "", options.schemes)
+      );
+  }
+  return true;
+}
+
+// Tests if a URL is relative, or has an allowed scheme. Browsers ignore
+// whitespace and control characters within the scheme.
+function isAllowedURL(value: string, schemes: string[]): boolean {
+  const match = /^([a-z][a-z\d+.-]*):/i.exec(
+    value.replace(/[\u0000-\u0020\u007F]/g, "")
+  );
+  return !match || schemes.includes(match[1].toLowerCase());
+}
+
+// Sanitizes markup without a DOM. The markup is split into comments, tags and
+// text, and serialized again with the allowed elements and attributes, while
+// the stack of open elements keeps the result balanced.
+function sanitizeMarkup(html: string, options: NormalizedOptions): string {
+  const open: string[] = [];
+  let result = "";
+  let position = 0;
+  // Element removed with its content, and the depth of its nested namesakes.
+  let removed: { name: string; depth: number } | undefined;
+  // Depth of the foreign content, where no element is allowed.
+  let foreign = 0;
+  while (position < html.length) {
+    const start = html.indexOf("<", position);
+    if (start < 0 || start > position) {
+      const end = start < 0 ? html.length : start;
+      if (!removed) result += html.slice(position, end).replaceAll(">", "&gt;");
+      position = end;
+      continue;
+    }
+    const tag = matchTag(html, position);
+    if (!tag) {
+      if (!removed) result += "&lt;";
+      position++;
+      continue;
+    }
+    position = tag.end;
+    if (tag.type === "comment") continue;
+    const { name } = tag;
+    if (removed) {
+      if (name === removed.name && !tag.selfClosing) {
+        removed.depth += tag.type === "start" ? 1 : -1;
+        if (removed.depth === 0) removed = undefined;
+      }
+      continue;
+    }
+    if (tag.type === "end") {
+      if (FOREIGN_ELEMENTS.has(name) && foreign > 0) {
+        foreign--;
+      } else if (foreign === 0 && open.includes(name)) {
+        while (open.length > 0) {
+          const closed = open.pop()!;
+          result += `</${closed}>`;
+          if (closed === name) break;
+        }
+      }
+      continue;
+    }
+    const allowed =
+      foreign === 0 && !FOREIGN_ELEMENTS.has(name) && options.tags.has(name);
+    if (RAW_TEXT_ELEMENTS.has(name) && foreign === 0) {
+      // The content of raw text elements is not markup.
+      const match = new RegExp(`</${name}(?=[\\s/>])`, "i").exec(
+        html.slice(position)
+      );
+      const end = match ? position + match.index : html.length;
+      const text = html.slice(position, end);
+      const closing = matchTag(html, end);
+      position = closing ? closing.end : html.length;
+      if (allowed) {
+        result += `<${name}${renderAttributes(tag.attributes, options)}>`;
+        result += `${text}</${name}>`;
+      } else if (!REMOVED_ELEMENTS.has(name)) {
+        result += text.replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+      }
+    } else if (allowed) {
+      result += `<${name}${renderAttributes(tag.attributes, options)}>`;
+      if (!VOID_ELEMENTS.has(name)) open.push(name);
+    } else if (FOREIGN_ELEMENTS.has(name)) {
+      if (!tag.selfClosing) foreign++;
+    } else if (
+      REMOVED_ELEMENTS.has(name) &&
+      !VOID_ELEMENTS.has(name) &&
+      !(foreign > 0 && tag.selfClosing)
+    ) {
+      removed = { name, depth: 1 };
+    }
+  }
+  while (open.length > 0) {
+    result += `</${open.pop()}>`;
+  }
+  return result;
+}
+
+// A tag or comment of markup, ending at the index `end`.
+type MarkupTag =
+  | { type: "comment"; end: number }
+  | {
+      type: "start" | "end";
+      end: number;
+      name: string;
+      attributes: Array<[string, string]>;
+      selfClosing: boolean;
+    };
+
+// Matches the tag or comment at `position`, or returns `undefined` if the
+// `<` starts text.
+function matchTag(html: string, position: number): MarkupTag | undefined {
+  if (html.startsWith("<!--", position)) {
+    const end = /^<!--(?:-?>|[^]*?-->)/.exec(html.slice(position));
+    return { type: "comment", end: end ? position + end[0].length : html.length };
+  }
+  const match = /^<(\/?)([a-z][^\s/>]*)/i.exec(html.slice(position));
+  if (!match) {
+    // Bogus comments, such as doctypes and processing instructions.
+    if (/^<(?:!|\?|\/[^a-z])/i.test(html.slice(position, position + 3))) {
+      const end = html.indexOf(">", position + 2);
+      return { type: "comment", end: end < 0 ? html.length : end + 1 };
+    }
+    return undefined;
+  }
+  const attributes: Array<[string, string]> = [];
+  const pattern =
+    /[\s/]*(?:(>)|([^\s/>][^\s/>=]*)(?:\s*=\s*(?:"([^"]*)"?|'([^']*)'?|([^\s>]*)))?)/y;
+  pattern.lastIndex = position + match[0].length;
+  let selfClosing = false;
+  for (;;) {
+    const attribute = pattern.exec(html);
+    if (!attribute) return { type: "comment", end: html.length };
+    if (attribute[1]) {
+      selfClosing = html[pattern.lastIndex - 2] === "/";
+      break;
+    }
+    const value = attribute[3] ?? attribute[4] ?? attribute[5] ?? "";
+    attributes.push([attribute[2].toLowerCase(), value]);
+  }
+  return {
+    type: match[1] ? "end" : "start",
+    end: pattern.lastIndex,
+    name: match[2].toLowerCase(),
+    attributes,
+    selfClosing,
+  };
+}
+
+// Renders the allowed attributes of a tag, with their values still encoded.
+function renderAttributes(
+  attributes: Array<[string, string]>,
+  options: NormalizedOptions
+): string {
+  let result = "";
+  const names = new Set<string>();
+  for (const [name, value] of attributes) {
+    // Like browsers, only the first of duplicate attributes counts.
+    if (names.has(name) || !ATTRIBUTE_NAME.test(name)) continue;
+    names.add(name);
+    if (isAllowedAttribute(name, decodeMarkup(value), options)) {
+      result += ` ${name}="${value.replaceAll('"', "&quot;")}"`;
+    }
+  }
+  return result;
+}
+
+// Attribute names that are serialized, excluding quotes.
+const ATTRIBUTE_NAME = /^[^\s"'<>\/=]+$/;
+
+// Character references that can make up the scheme of a URL.
+const NAMED_REFERENCES: Record<string, string> = {
+  amp: "&",
+  apos: "'",
+  colon: ":",
+  gt: ">",
+  lt: "<",
+  NewLine: "\n",
+  period: ".",
+  plus: "+",
+  quot: '"',
+  Tab: "\t",
+};
+
+// Decodes the character references of an attribute value, to check the URLs
+// it holds. Other named references do not contribute to a URL scheme.
+function decodeMarkup(value: string): string {
+  return value.replace(
+    /&(?:#(\d+)|#x([\da-f]+)|([a-z]+));?/gi,
+    (reference, decimal, hex, name) => {
+      if (name) return NAMED_REFERENCES[name] ?? reference;
+      const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+      return codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : "\uFFFD";
+    }
+  );
+}
@@ -0,0 +1,28 @@
+import { describe, expect, test } from "vitest";
+import { createRaw, createVirtual } from "./dom";
+import { renderToString } from "./server";
+
+describe("renderToString without a DOM", () => {
+  test("renders sanitized raw HTML", () => {
+    expect(typeof document).toEqual("undefined");
+    expect(
+      renderToString(
+        createVirtual(
+          "div",
+          {},
+          createRaw('<p onclick="x()">a<script>b</script></p></div>')
+        )
+      )
+    ).toEqual("<div><p>a</p></div>");
+  });
+  test("renders raw HTML with custom allowlists", () => {
+    expect(
+      renderToString(
+        createRaw('<p style="color: red"><em>a</em></p>', {
+          tags: ["p"],
+          attributes: ["style"],
+        })
+      )
+    ).toEqual('<p style="color: red">a</p>');
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, expect, test } from "vitest";
+import {
+  createAsync,
+  createRaw,
+  createVirtual,
+  Fragment,
+  useEffect,
+  useState,
+} from "./dom";
+import { renderToStream, renderToString } from "./server";
+
+const handler: EventListener = () => 1;
+
+async function readStream(stream: ReadableStream<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return chunks;
+    chunks.push(value);
+  }
+}
+
+describe("renderToString", () => {
+  test("as simple as it gets", () => {
+    expect(renderToString(createVirtual("div"))).toEqual("<div></div>");
+  });
+  test("with attributes", () => {
+    expect(
+      renderToString(createVirtual("p", { class: "foo", id: "bar" }))
+    ).toEqual('<p class="foo" id="bar"></p>');
+  });
+  test("with escaped attribute", () => {
+    expect(
+      renderToString(createVirtual("p", { title: '"Tom" & <Jerry>' }))
+    ).toEqual('<p title="&quot;Tom&quot; &amp; <Jerry>"></p>');
+  });
+  test("with invalid attribute name", () => {
+    expect(() =>
+      renderToString(
+        createVirtual("div", { 'a"><script>x</script>': "1" })
+      )
+    ).toThrowError(/Invalid attribute name/);
+  });
+  test("with invalid tag name", () => {
+    expect(() =>
+      renderToString(
+        createVirtual("img onerror=alert(1) x" as keyof HTMLElementTagNameMap)
+      )
+    ).toThrowError(/Invalid tag name/);
+  });
+  test("with boolean attribute", () => {
+    expect(
+      renderToString(createVirtual("button", { disabled: true, hidden: false }))
+    ).toEqual("<button disabled></button>");
+  });
+  test("without listeners", () => {
+    expect(
+      renderToString(createVirtual("button", { onClick: handler }, "Click"))
+    ).toEqual("<button>Click</button>");
+  });
+  test("with escaped text", () => {
+    expect(
+      renderToString(createVirtual("p", {}, "<b>Tom</b> & Jerry"))
+    ).toEqual("<p>&lt;b&gt;Tom&lt;/b&gt; &amp; Jerry</p>");
+  });
+  test("with nested elements", () => {
+    expect(
+      renderToString(
+        createVirtual(
+          "div",
+          {},
+          createVirtual("h1", {}, "Title"),
+          createVirtual("p", {}, "Content")
+        )
+      )
+    ).toEqual("<div><h1>Title</h1><p>Content</p></div>");
+  });
+  test("with multiple roots", () => {
+    expect(
+      renderToString(createVirtual("h1"), "text", createVirtual("p"))
+    ).toEqual("<h1></h1>text<p></p>");
+  });
+  test("with void elements", () => {
+    expect(
+      renderToString(
+        createVirtual("p", {}, "a", createVirtual("br"), createVirtual("img", { src: "b.png" }))
+      )
+    ).toEqual('<p>a<br><img src="b.png"></p>');
+  });
+  test("with raw text elements", () => {
+    expect(
+      renderToString(createVirtual("script", {}, "if (a < b) '</script>'"))
+    ).toEqual("<script>if (a < b) '<\\/script>'</script>");
+  });
+  test("with svg", () => {
+    expect(
+      renderToString(
+        createVirtual(
+          "svg",
+          { viewBox: "0 0 10 10" },
+          createVirtual("circle", { r: "5" }),
+          createVirtual("foreignObject", {}, createVirtual("br"))
+        )
+      )
+    ).toEqual(
+      '<svg viewBox="0 0 10 10"><circle r="5"/><foreignObject><br></foreignObject></svg>'
+    );
+  });
+  test("with namespaced attributes", () => {
+    expect(
+      renderToString(
+        createVirtual("svg", {}, createVirtual("use", { "xlink:href": "#icon" }))
+      )
+    ).toEqual('<svg><use xlink:href="#icon"/></svg>');
+  });
+  test("with properties", () => {
+    expect(
+      renderToString(
+        createVirtual("input", { type: "checkbox", ".checked": true, ".value": "on" })
+      )
+    ).toEqual('<input type="checkbox" checked value="on">');
+    expect(
+      renderToString(createVirtual("textarea", { ".value": "<text>" }))
+    ).toEqual("<textarea>&lt;text&gt;</textarea>");
+  });
+  test("with structured styles and classes", () => {
+    expect(
+      renderToString(
+        createVirtual("div", {
+          style: { backgroundColor: "red", "--size": 2 },
+          class: { foo: true, bar: false, zork: true },
+        })
+      )
+    ).toEqual(
+      '<div style="background-color: red; --size: 2;" class="foo zork"></div>'
+    );
+  });
+  test("with fragments", () => {
+    expect(
+      renderToString(
+        createVirtual(
+          "ul",
+          {},
+          createVirtual(Fragment, {}, createVirtual("li", {}, "1"), createVirtual("li", {}, "2"))
+        )
+      )
+    ).toEqual("<ul><li>1</li><li>2</li></ul>");
+  });
+  test("with components", () => {
+    let effects = 0;
+    const Counter = ({ start }: { start: number }) => {
+      const [count] = useState(start);
+      useEffect(() => {
+        effects++;
+      });
+      return createVirtual("span", {}, String(count));
+    };
+    expect(
+      renderToString(createVirtual("div", {}, createVirtual(Counter, { start: 42 })))
+    ).toEqual("<div><span>42</span></div>");
+    expect(effects).toEqual(0);
+  });
+  test("renders mixed children", () => {
+    expect(
+      renderToString(
+        createVirtual("p", {}, "a", 1, null, undefined, true, [false, ["b"]])
+      )
+    ).toEqual("<p>a1b</p>");
+  });
+  test("renders sanitized raw HTML", () => {
+    expect(
+      renderToString(
+        createVirtual("div", {}, createRaw('<p onclick="x()">a<script>b</script></p>'))
+      )
+    ).toEqual("<div><p>a</p></div>");
+  });
+  test("async children", () => {
+    let loaded = false;
+    expect(
+      renderToString(
+        createVirtual(
+          "div",
+          {},
+          Promise.resolve("a"),
+          async () => {
+            loaded = true;
+            return "b";
+          },
+          createAsync(Promise.resolve("c"), { fallback: "Loading" })
+        )
+      )
+    ).toEqual("<div>Loading</div>");
+    expect(loaded).toBe(false);
+  });
+});
+
+describe("renderToStream", () => {
+  test("streams chunks", async () => {
+    const chunks = await readStream(
+      renderToStream(createVirtual("ul", {}, createVirtual("li", {}, "One")))
+    );
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toEqual("<ul><li>One</li></ul>");
+  });
+  test("streams the same as a string", async () => {
+    const virtual = createVirtual(
+      "div",
+      { id: "main" },
+      createVirtual("svg", {}, createVirtual("path", { d: "M0 0" })),
+      createVirtual("p", {}, "a & b")
+    );
+    const chunks = await readStream(renderToStream(virtual));
+    expect(chunks.join("")).toEqual(renderToString(virtual));
+  });
+});
@@ -0,0 +1,272 @@
+import {
+  type ComponentDOM,
+  type RawDOM,
+  type VirtualChild,
+  type VirtualDOM,
+  getClassTokens,
+  getStyleProperties,
+  renderComponent,
+  resolveNamespace,
+  HTML_NAMESPACE,
+  Fragment,
+  SVG_NAMESPACE,
+  config,
+} from "./dom.js";
+import { sanitizeHTML } from "./sanitize.js";
+
+// HTML elements that have no closing tag and no children.
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Valid attribute names, which cannot break out of the start tag.
+const ATTRIBUTE_NAME = /^[^\s"'>\/=]+$/;
+
+// Valid tag names, which cannot add attributes or break out of the tag.
+const TAG_NAME = /^[a-zA-Z][^\s"'<>\/=]*$/;
+
+// HTML elements whose text content is not escaped.
+const RAW_TEXT_ELEMENTS = new Set(["script", "style"]);
+
+// Properties that are rendered as boolean attributes.
+const BOOLEAN_PROPERTIES = new Set([
+  "checked",
+  "disabled",
+  "hidden",
+  "multiple",
+  "open",
+  "readOnly",
+  "required",
+  "selected",
+]);
+
+/**
+ * Renders `VirtualDOM` specifications to an HTML string, without requiring a
+ * DOM. Text and attribute values are escaped, invalid tag and attribute names
+ * throw, listeners are omitted, and components are rendered with the initial
+ * state of their hooks.
+ *
+ * @example
+ * const html = renderToString(
+ *   createVirtual("h1", { class: "title" }, "Hello & Welcome")
+ * );
+ * // <h1 class="title">Hello &amp; Welcome</h1>
+ */
+export function renderToString(...children: VirtualChild[]): string {
+  let result = "";
+  for (const child of children) {
+    for (const chunk of renderChunks(child, HTML_NAMESPACE)) {
+      result += chunk;
+    }
+  }
+  return result;
+}
+
+/**
+ * Renders `VirtualDOM` specifications to a stream of HTML chunks, like
+ * `renderToString`. Chunks are only produced as the stream is consumed, so
+ * that the first bytes can be sent before the complete page is rendered.
+ */
+export function renderToStream(
+  ...children: VirtualChild[]
+): ReadableStream<string> {
+  const chunks = (function* () {
+    for (const child of children) {
+      yield* renderChunks(child, HTML_NAMESPACE);
+    }
+  })();
+  return new ReadableStream<string>({
+    pull(controller) {
+      try {
+        const { value, done } = chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel() {
+      chunks.return(undefined);
+    },
+  });
+}
+
+// Generates the HTML chunks of a child within the given namespace.
+function* renderChunks(
+  child: VirtualChild,
+  namespace: string
+): Generator<string, void, undefined> {
+  if (Array.isArray(child)) {
+    for (const each of child) {
+      yield* renderChunks(each, namespace);
+    }
+  } else if (
+    child === null ||
+    child === undefined ||
+    typeof child === "boolean"
+  ) {
+    // Skipped like in the DOM.
+  } else if (typeof child === "function") {
+    // Loaders of asynchronous children only run in the DOM.
+  } else if (typeof child !== "object") {
+    yield escapeText(String(child));
+  } else if ("then" in child) {
+    // Asynchronous children are rendered once resolved in the DOM.
+  } else if ("html" in child) {
+    yield renderRaw(child);
+  } else if ("component" in child) {
+    yield* renderChunks(renderComponent(child as ComponentDOM<any>), namespace);
+  } else if (child.tagName === Fragment) {
+    for (const fragmentChild of child.children ?? []) {
+      yield* renderChunks(fragmentChild, namespace);
+    }
+  } else {
+    yield* renderElement(child, namespace);
+  }
+}
+
+// Renders raw HTML, sanitized like in the DOM. Without a DOM, the markup is
+// sanitized as a string.
+function renderRaw({ html, sanitize }: RawDOM): string {
+  return sanitizeHTML(html, { ...config.sanitizer, ...sanitize });
+}
+
+// Generates the HTML chunks of an element within the given parent namespace.
+function* renderElement(
+  virtual: VirtualDOM<string>,
+  parentNamespace: string
+): Generator<string, void, undefined> {
+  const { tagName, children = [] } = virtual;
+  const namespace = resolveNamespace(
+    tagName,
+    virtual.namespaceURI,
+    parentNamespace
+  );
+  if (!TAG_NAME.test(tagName)) {
+    // Like `createElement` in the DOM, rather than injecting markup.
+    throw new Error(`Invalid tag name "${tagName}".`);
+  }
+  yield `<${tagName}${renderAttributes(virtual)}`;
+  if (namespace === HTML_NAMESPACE) {
+    yield ">";
+    if (VOID_ELEMENTS.has(tagName.toLowerCase())) return;
+  } else if (children.length === 0) {
+    // Foreign elements support the self-closing syntax.
+    yield "/>";
+    return;
+  } else {
+    yield ">";
+  }
+  const childNamespace =
+    namespace === SVG_NAMESPACE && tagName === "foreignObject"
+      ? HTML_NAMESPACE
+      : namespace;
+  if (namespace === HTML_NAMESPACE && RAW_TEXT_ELEMENTS.has(tagName.toLowerCase())) {
+    for (const child of (children as unknown[]).flat(Infinity)) {
+      if (typeof child === "string" || typeof child === "number") {
+        yield escapeRawText(String(child), tagName);
+      }
+    }
+  } else if (
+    namespace === HTML_NAMESPACE &&
+    tagName.toLowerCase() === "textarea" &&
+    typeof virtual.properties?.value === "string"
+  ) {
+    yield escapeText(virtual.properties.value);
+  } else {
+    for (const child of children) {
+      yield* renderChunks(child, childNamespace);
+    }
+  }
+  yield `</${tagName}>`;
+}
+
+// Renders the attributes of an element, including the structured styles and
+// classes, and the properties that have an attribute equivalent.
+function renderAttributes({
+  tagName,
+  attributes = {},
+  properties = {},
+  style,
+  classes,
+}: VirtualDOM<string>): string {
+  const values = new Map<string, string>(Object.entries(attributes));
+  if (style) {
+    const declarations = [...getStyleProperties(style)]
+      .map(([name, value]) => `${name}: ${value};`);
+    if (declarations.length > 0) {
+      values.set("style", declarations.join(" "));
+    } else {
+      values.delete("style");
+    }
+  }
+  if (classes) {
+    const tokens = [...getClassTokens(classes)];
+    if (tokens.length > 0) {
+      values.set("class", tokens.join(" "));
+    } else {
+      values.delete("class");
+    }
+  }
+  for (const [name, value] of Object.entries(properties)) {
+    if (BOOLEAN_PROPERTIES.has(name)) {
+      if (value) {
+        values.set(name.toLowerCase(), "");
+      } else {
+        values.delete(name.toLowerCase());
+      }
+    } else if (
+      name === "value" &&
+      tagName.toLowerCase() !== "textarea" &&
+      value !== null &&
+      value !== undefined
+    ) {
+      values.set("value", String(value));
+    }
+  }
+  let result = "";
+  for (const [name, value] of values) {
+    if (!ATTRIBUTE_NAME.test(name)) {
+      // Like `setAttribute` in the DOM, rather than injecting markup.
+      throw new Error(`Invalid attribute name "${name}".`);
+    }
+    result += value === "" ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`;
+  }
+  return result;
+}
+
+// Escapes text content.
+function escapeText(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+}
+
+// Escapes a double-quoted attribute value.
+function escapeAttribute(value: string): string {
+  return value.replaceAll("&", "&amp;").replaceAll('"', "&quot;");
+}
+
+// Prevents raw text from closing its element prematurely.
+function escapeRawText(value: string, tagName: string): string {
+  return value.replace(
+    new RegExp(`</(${tagName})`, "gi"),
+    (_, name: string) => `<\\/${name}`
+  );
+}
@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { createElement, createRoot, createVirtual, flushSync } from "./dom";
+import {
+  createSelector,
+  createStore,
+  logger,
+  persist,
+  useSelector,
+} from "./store";
+
+function createCounter() {
+  return createStore({
+    state: { count: 0, label: "Count" },
+    actions: {
+      increment: (state, amount: number) => ({
+        ...state,
+        count: state.count + amount,
+      }),
+      rename: (state, label: string) => ({ ...state, label }),
+    },
+  });
+}
+
+describe("createStore", () => {
+  test("initial state", () => {
+    const store = createCounter();
+    expect(store.getState()).toEqual({ count: 0, label: "Count" });
+  });
+  test("set state", () => {
+    const store = createStore({ state: 1 });
+    store.setState(2);
+    expect(store.getState()).toEqual(2);
+    store.setState((value) => value * 3);
+    expect(store.getState()).toEqual(6);
+  });
+  test("call actions", () => {
+    const store = createCounter();
+    store.actions.increment(2);
+    store.actions.rename("Total");
+    expect(store.getState()).toEqual({ count: 2, label: "Total" });
+  });
+  test("subscribe and unsubscribe", () => {
+    const store = createCounter();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    store.actions.increment(1);
+    expect(listener).toHaveBeenCalledWith(
+      { count: 1, label: "Count" },
+      { count: 0, label: "Count" }
+    );
+    unsubscribe();
+    store.actions.increment(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+  test("skip unchanged state", () => {
+    const store = createCounter();
+    const listener = vi.fn();
+    store.subscribe(listener);
+    store.setState((state) => state);
+    expect(listener).not.toHaveBeenCalled();
+  });
+  test("select changed slices", () => {
+    const store = createCounter();
+    const listener = vi.fn();
+    store.select((state) => state.count, listener);
+    store.actions.rename("Total");
+    expect(listener).not.toHaveBeenCalled();
+    store.actions.increment(5);
+    expect(listener).toHaveBeenCalledWith(5, 0);
+  });
+  test("select to update an element", () => {
+    const store = createCounter();
+    const element = createElement(createVirtual("span", {}, "0"));
+    store.select(
+      (state) => state.count,
+      (count) => element.replaceChildren(String(count))
+    );
+    store.actions.increment(3);
+    expect(element.outerHTML).toEqual("<span>3</span>");
+  });
+});
+
+describe("createSelector", () => {
+  test("memoize on inputs", () => {
+    const combine = vi.fn((items: number[]) => items.filter((each) => each > 1));
+    const selector = createSelector(
+      [(state: { items: number[]; other: string }) => state.items],
+      combine
+    );
+    const items = [1, 2, 3];
+    const first = selector({ items, other: "a" });
+    const second = selector({ items, other: "b" });
+    expect(first).toEqual([2, 3]);
+    expect(second).toBe(first);
+    expect(combine).toHaveBeenCalledTimes(1);
+    expect(selector({ items: [4], other: "b" })).toEqual([4]);
+    expect(combine).toHaveBeenCalledTimes(2);
+  });
+  test("combine multiple inputs", () => {
+    type State = { a: number; b: number };
+    const selector = createSelector(
+      [(state: State) => state.a, (state: State) => state.b],
+      (a, b) => a + b
+    );
+    expect(selector({ a: 1, b: 2 })).toEqual(3);
+  });
+});
+
+describe("middleware", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+  test("log actions", () => {
+    const log = vi.fn();
+    const store = createStore({
+      state: { count: 0 },
+      actions: { increment: (state) => ({ count: state.count + 1 }) },
+      middleware: [logger(log)],
+    });
+    store.actions.increment();
+    expect(log).toHaveBeenCalledWith("Action increment", {
+      previous: { count: 0 },
+      state: { count: 1 },
+    });
+  });
+  test("persist state", () => {
+    const options = {
+      state: { count: 0, label: "Count" },
+      actions: {
+        increment: (state: { count: number; label: string }) => ({
+          ...state,
+          count: state.count + 1,
+        }),
+      },
+      middleware: [persist<{ count: number; label: string }>("counter")],
+    };
+    const store = createStore(options);
+    store.actions.increment();
+    expect(JSON.parse(localStorage.getItem("counter")!)).toEqual({
+      count: 1,
+      label: "Count",
+    });
+    expect(createStore(options).getState()).toEqual({ count: 1, label: "Count" });
+  });
+  test("persist merges into initial state", () => {
+    localStorage.setItem("counter", JSON.stringify({ count: 5 }));
+    const store = createStore({
+      state: { count: 0, label: "Count" },
+      middleware: [persist("counter")],
+    });
+    expect(store.getState()).toEqual({ count: 5, label: "Count" });
+  });
+  test("persist ignores invalid values", () => {
+    localStorage.setItem("counter", "{");
+    const store = createStore({
+      state: { count: 0 },
+      middleware: [persist("counter")],
+    });
+    expect(store.getState()).toEqual({ count: 0 });
+  });
+});
+
+describe("useSelector", () => {
+  test("re-render views of changed slices", () => {
+    const store = createCounter();
+    const renders: string[] = [];
+    const Count = () => {
+      const count = useSelector(store, (state) => state.count);
+      renders.push("count");
+      return createVirtual("span", {}, count);
+    };
+    const Label = () => {
+      const label = useSelector(store, (state) => state.label);
+      renders.push("label");
+      return createVirtual("b", {}, label);
+    };
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    root.render(createVirtual(Label, {}), createVirtual(Count, {}));
+    flushSync();
+    expect(container.innerHTML).toEqual("<b>Count</b><span>0</span>");
+    renders.length = 0;
+    store.actions.increment(1);
+    flushSync();
+    expect(container.innerHTML).toEqual("<b>Count</b><span>1</span>");
+    expect(renders).toEqual(["count"]);
+    renders.length = 0;
+    store.actions.rename("Total");
+    flushSync();
+    expect(container.innerHTML).toEqual("<b>Total</b><span>1</span>");
+    expect(renders).toEqual(["label"]);
+    root.unmount();
+    store.actions.increment(1);
+    expect(renders).toEqual(["label"]);
+  });
+});
@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState } from "./dom.js";
+
+/** Commits a new state, named after the action producing it. */
+export type SetState<S> = (state: S, action: string) => void;
+
+/**
+ * Wraps the commit of new states, for example to log or persist them. The
+ * middleware is called once when the store is created, with the next commit
+ * function in the chain.
+ */
+export type Middleware<S> = (
+  next: SetState<S>,
+  store: Store<S, unknown>
+) => SetState<S>;
+
+/**
+ * Reducers of the actions of a store, given the arguments `A` of each action
+ * and returning the next state.
+ */
+export type Reducers<S, A extends Record<string, unknown[]>> = {
+  [K in keyof A]: (state: S, ...args: A[K]) => S;
+};
+
+/** The actions of a store, given the arguments `A` of each action. */
+export type Actions<A extends Record<string, unknown[]>> = {
+  [K in keyof A]: (...args: A[K]) => void;
+};
+
+/** Options of the [createStore] function. */
+export interface StoreOptions<S, A extends Record<string, unknown[]>> {
+  /** The initial state. */
+  state: S;
+  /** Reducers of the actions, each becoming a function of `actions`. */
+  actions?: Reducers<S, A>;
+  /** Middleware wrapping the commits, the first one being the outermost. */
+  middleware?: Middleware<S>[];
+}
+
+/** A container of shared state. */
+export interface Store<S, A = Actions<{}>> {
+  /** Returns the current state. */
+  getState(): S;
+  /** Replaces the state, or updates it given the previous one. */
+  setState(update: S | ((state: S) => S), action?: string): void;
+  /** Calls the listener after every change, returns a function to stop. */
+  subscribe(listener: (state: S, previous: S) => void): () => void;
+  /**
+   * Calls the listener whenever the value of the selector changes, returns a
+   * function to stop.
+   */
+  select<T>(
+    selector: (state: S) => T,
+    listener: (value: T, previous: T) => void
+  ): () => void;
+  /** The actions, committing the state computed by their reducers. */
+  readonly actions: A;
+}
+
+/**
+ * Creates a store holding shared state, that is changed through `setState`
+ * or through the `actions` derived from their reducers. Listeners are called
+ * synchronously after every change, selections only if their value changed.
+ *
+ * @example
+ * const store = createStore({
+ *   state: { count: 0 },
+ *   actions: {
+ *     increment: (state, amount: number) => ({ count: state.count + amount }),
+ *   },
+ *   middleware: [logger(), persist("counter")],
+ * });
+ * store.actions.increment(2);
+ */
+export function createStore<S, A extends Record<string, unknown[]> = {}>({
+  state: initial,
+  actions: reducers,
+  middleware = [],
+}: StoreOptions<S, A>): Store<S, Actions<A>> {
+  let state = initial;
+  const listeners = new Set<(state: S, previous: S) => void>();
+  const commit: SetState<S> = (next) => {
+    if (Object.is(next, state)) return;
+    const previous = state;
+    state = next;
+    for (const listener of [...listeners]) {
+      listener(state, previous);
+    }
+  };
+  let set = commit;
+  const actions = {} as Actions<A>;
+  const store: Store<S, Actions<A>> = {
+    getState: () => state,
+    setState(update, action = "setState") {
+      set(update instanceof Function ? update(state) : update, action);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    select(selector, listener) {
+      let value = selector(state);
+      return store.subscribe((state) => {
+        const previous = value;
+        value = selector(state);
+        if (!Object.is(value, previous)) {
+          listener(value, previous);
+        }
+      });
+    },
+    actions,
+  };
+  for (const [name, reducer] of Object.entries(reducers ?? {}) as Array<
+    [string, (state: S, ...args: unknown[]) => S]
+  >) {
+    (actions as Record<string, Function>)[name] = (...args: unknown[]) =>
+      set(reducer(state, ...args), name);
+  }
+  for (const each of [...middleware].reverse()) {
+    set = each(set, store);
+  }
+  return store;
+}
+
+/**
+ * Creates a memoized selector, that only recomputes its result with `combine`
+ * if the values of the `inputs` selectors changed. This keeps derived values
+ * identical, so that selections and views depending on them are not updated.
+ *
+ * @example
+ * const selectDone = createSelector(
+ *   [(state: State) => state.todos],
+ *   (todos) => todos.filter((todo) => todo.done)
+ * );
+ */
+export function createSelector<S, I extends unknown[], T>(
+  inputs: { [K in keyof I]: (state: S) => I[K] } & Array<(state: S) => unknown>,
+  combine: (...inputs: I) => T
+): (state: S) => T {
+  let previous: { inputs: unknown[]; result: T } | undefined;
+  return (state) => {
+    const values = inputs.map((input) => input(state));
+    if (
+      !previous ||
+      values.some((value, index) => !Object.is(value, previous!.inputs[index]))
+    ) {
+      previous = { inputs: values, result: combine(...(values as I)) };
+    }
+    return previous.result;
+  };
+}
+
+/**
+ * Returns the value of the selector for the state of the store, and
+ * re-renders the calling component only once that value changes.
+ *
+ * @example
+ * function Count() {
+ *   const count = useSelector(store, (state) => state.count);
+ *   return createVirtual("span", {}, count);
+ * }
+ */
+export function useSelector<S, T>(
+  store: Store<S, unknown>,
+  selector: (state: S) => T
+): T {
+  const value = selector(store.getState());
+  const [, setVersion] = useState(0);
+  const latest = useRef({ selector, value });
+  latest.current = { selector, value };
+  useEffect(() => {
+    // Also catch up with changes between rendering and subscribing.
+    const check = () => {
+      const { selector, value } = latest.current;
+      if (!Object.is(selector(store.getState()), value)) {
+        setVersion((version) => version + 1);
+      }
+    };
+    check();
+    return store.subscribe(check);
+  }, [store]);
+  return value;
+}
+
+/**
+ * Middleware logging every commit with its action, and the previous and next
+ * state.
+ */
+export function logger<S>(
+  log: (message: string, ...details: unknown[]) => void = console.log
+): Middleware<S> {
+  return (next, store) => (state, action) => {
+    const previous = store.getState();
+    next(state, action);
+    log(`Action ${action}`, { previous, state: store.getState() });
+  };
+}
+
+/** Options of the [persist] middleware. */
+export interface PersistOptions<S> {
+  /** The storage to use, `localStorage` by default. */
+  storage?: Storage;
+  /** Converts the state to the stored string, `JSON.stringify` by default. */
+  serialize?: (state: S) => string;
+  /** Converts the stored string to the state, `JSON.parse` by default. */
+  deserialize?: (value: string) => S;
+}
+
+/**
+ * Middleware persisting the state in `localStorage` under `key`, and restoring
+ * it when the store is created. A restored object is merged into the initial
+ * state, so that properties added later keep their initial value. Stored
+ * values that cannot be read are ignored.
+ */
+export function persist<S>(
+  key: string,
+  {
+    storage = localStorage,
+    serialize = JSON.stringify,
+    deserialize = JSON.parse,
+  }: PersistOptions<S> = {}
+): Middleware<S> {
+  return (next, store) => {
+    const stored = storage.getItem(key);
+    if (stored !== null) {
+      let restored: S | undefined;
+      try {
+        restored = deserialize(stored);
+      } catch {
+        restored = undefined;
+      }
+      if (restored !== undefined) {
+        const initial = store.getState();
+        next(
+          isPlainObject(initial) && isPlainObject(restored)
+            ? { ...initial, ...restored }
+            : restored,
+          "persist"
+        );
+      }
+    }
+    return (state, action) => {
+      next(state, action);
+      storage.setItem(key, serialize(store.getState()));
+    };
+  };
+}
+
+// Tests if a value is a plain object, that can be merged.
+function isPlainObject(value: unknown): value is object {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
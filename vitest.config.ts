@@ -1,13 +1,34 @@
-import { defineConfig } from "vitest/config";
+import { configDefaults, defineConfig } from "vitest/config";
 
 export default defineConfig({
+  resolve: {
+    // The JSX runtime imported by the `jsxImportSource` of the tsconfig.
+    alias: { "web-foundations": new URL("./src", import.meta.url).pathname },
+  },
   test: {
-    include: ["**/*.test.ts"],
-    browser: {
-      enabled: true,
-      headless: true,
-      provider: "playwright",
-      instances: [{ browser: "chromium" }],
-    },
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: "browser",
+          include: ["**/*.test.{ts,tsx}"],
+          exclude: [...configDefaults.exclude, "**/*.node.test.ts"],
+          browser: {
+            enabled: true,
+            headless: true,
+            provider: "playwright",
+            instances: [{ browser: "chromium" }],
+          },
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: "node",
+          include: ["**/*.node.test.ts"],
+          environment: "node",
+        },
+      },
+    ],
   },
 });